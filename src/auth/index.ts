@@ -0,0 +1,43 @@
+// Auth providers index for Kiwi TCMS MCP Server
+
+import { KiwiAuthConfig, KiwiAuthMode, KiwiAuthProvider } from '../types/index.js';
+import { StaticTokenAuth } from './staticTokenAuth.js';
+import { SessionAuth } from './sessionAuth.js';
+import { TokenFileAuth } from './tokenFileAuth.js';
+
+export { StaticTokenAuth } from './staticTokenAuth.js';
+export { SessionAuth } from './sessionAuth.js';
+export { TokenFileAuth } from './tokenFileAuth.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Credential generation the request was sent with. */
+    authGeneration?: number;
+    /** Set once a request has been replayed after re-authenticating. */
+    authRetried?: boolean;
+  }
+}
+
+export const AUTH_MODES: KiwiAuthMode[] = ['token', 'session', 'token_file'];
+
+export function createAuthProvider(config: KiwiAuthConfig, baseUrl: string, timeoutMs: number): KiwiAuthProvider {
+  switch (config.mode) {
+    case 'token':
+      return new StaticTokenAuth(config.token);
+    case 'session':
+      return new SessionAuth(baseUrl, config.username, config.password, timeoutMs);
+    case 'token_file':
+      return new TokenFileAuth(config.path);
+    default:
+      throw new Error(`Unknown Kiwi TCMS auth mode: ${(config as KiwiAuthConfig).mode}`);
+  }
+}
+
+/**
+ * JSON-RPC reports an expired or missing session as a 200 response with an
+ * error body rather than a 401.
+ */
+export function isJsonRpcAuthFailure(data: any): boolean {
+  const message = data?.error?.message;
+  return typeof message === 'string' && /authenticat|login required|not logged in/i.test(message);
+}
@@ -0,0 +1,93 @@
+// Session authentication for Kiwi TCMS MCP Server
+// Logs in through the JSON-RPC Auth.login method and sends the session cookie
+
+import axios, { AxiosInstance } from 'axios';
+import { KiwiAuthProvider } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import { KiwiForbiddenError, KiwiUpstreamError } from '../utils/errors.js';
+
+const JSON_RPC_PATH = 'json-rpc/';
+
+/**
+ * Username/password login for installs that don't issue API tokens.
+ * Sessions expire, so a rejected request triggers one fresh login; callers
+ * racing on the same expired session share that login.
+ */
+export class SessionAuth implements KiwiAuthProvider {
+  readonly mode = 'session' as const;
+  generation = 0;
+  private logger: Logger;
+  private http: AxiosInstance;
+  private sessionId?: string;
+  private pendingLogin?: Promise<void>;
+
+  constructor(baseUrl: string, private username: string, private password: string, timeoutMs: number) {
+    this.logger = new Logger('SessionAuth');
+    Logger.registerSecret(password);
+
+    // Separate client: logins must not pass through the API client's auth interceptors
+    this.http = axios.create({
+      baseURL: baseUrl,
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      timeout: timeoutMs
+    });
+  }
+
+  private login(): Promise<void> {
+    if (!this.pendingLogin) {
+      this.pendingLogin = this.performLogin().finally(() => {
+        this.pendingLogin = undefined;
+      });
+    }
+    return this.pendingLogin;
+  }
+
+  private async performLogin(): Promise<void> {
+    this.logger.info(`Logging in to Kiwi TCMS as ${this.username}`);
+
+    let body: any;
+    try {
+      const response = await this.http.post(JSON_RPC_PATH, {
+        jsonrpc: '2.0',
+        method: 'Auth.login',
+        params: [this.username, this.password],
+        id: 1
+      });
+      body = response.data;
+    } catch (error) {
+      throw new KiwiUpstreamError(`Kiwi TCMS login failed: ${error instanceof Error ? error.message : error}`, {
+        upstreamStatus: axios.isAxiosError(error) ? error.response?.status : undefined
+      });
+    }
+
+    if (body?.error || typeof body?.result !== 'string') {
+      throw new KiwiForbiddenError(`Kiwi TCMS login failed for ${this.username}: ${body?.error?.message || 'no session returned'}`, {
+        hint: 'Check the Kiwi TCMS username and password for this instance.'
+      });
+    }
+
+    this.sessionId = body.result;
+    Logger.registerSecret(this.sessionId);
+    this.generation++;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    if (!this.sessionId) {
+      await this.login();
+    }
+    return { Cookie: `sessionid=${this.sessionId}` };
+  }
+
+  async refresh(generation: number): Promise<boolean> {
+    // Someone already logged in again since this request was sent
+    if (generation !== this.generation) return true;
+
+    // A failed login surfaces its own error, which says more than the 401
+    this.logger.info('Kiwi TCMS session rejected; logging in again');
+    await this.login();
+    return true;
+  }
+}
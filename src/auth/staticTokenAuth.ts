@@ -0,0 +1,22 @@
+// Static token authentication for Kiwi TCMS MCP Server
+
+import { KiwiAuthProvider } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+
+/** Sends a fixed API token; there is nothing to renew when it is rejected. */
+export class StaticTokenAuth implements KiwiAuthProvider {
+  readonly mode = 'token' as const;
+  readonly generation = 0;
+
+  constructor(private token: string) {
+    Logger.registerSecret(token);
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    return { Authorization: `Token ${this.token}` };
+  }
+
+  async refresh(): Promise<boolean> {
+    return false;
+  }
+}
@@ -0,0 +1,60 @@
+// Token file authentication for Kiwi TCMS MCP Server
+
+import { readFile } from 'fs/promises';
+import { KiwiAuthProvider } from '../types/index.js';
+import { Logger } from '../utils/logger.js';
+import { KiwiForbiddenError } from '../utils/errors.js';
+
+/**
+ * Reads the API token from a file (e.g. a mounted secret) instead of the
+ * environment. The file is re-read after a rejection so rotated tokens are
+ * picked up without a restart.
+ */
+export class TokenFileAuth implements KiwiAuthProvider {
+  readonly mode = 'token_file' as const;
+  generation = 0;
+  private logger: Logger;
+  private token?: string;
+
+  constructor(private path: string) {
+    this.logger = new Logger('TokenFileAuth');
+  }
+
+  private async readToken(): Promise<string> {
+    let token: string;
+    try {
+      token = (await readFile(this.path, 'utf8')).trim();
+    } catch (error) {
+      throw new KiwiForbiddenError(`Unable to read Kiwi TCMS token file ${this.path}: ${error instanceof Error ? error.message : error}`, {
+        hint: 'Check that the token file exists and is readable by the server process.'
+      });
+    }
+
+    if (!token) {
+      throw new KiwiForbiddenError(`Kiwi TCMS token file ${this.path} is empty`, {
+        hint: 'Write the API token from the Kiwi TCMS user profile into the token file.'
+      });
+    }
+    Logger.registerSecret(token);
+    return token;
+  }
+
+  async getHeaders(): Promise<Record<string, string>> {
+    if (!this.token) {
+      this.token = await this.readToken();
+    }
+    return { Authorization: `Token ${this.token}` };
+  }
+
+  async refresh(generation: number): Promise<boolean> {
+    if (generation !== this.generation) return true;
+
+    const token = await this.readToken();
+    if (token === this.token) return false;
+
+    this.logger.info(`Token file ${this.path} changed; using the new token`);
+    this.token = token;
+    this.generation++;
+    return true;
+  }
+}
@@ -0,0 +1,114 @@
+// HTTP transport for Kiwi TCMS MCP Server
+// Serves MCP over SSE with one server session per connected client
+
+import express, { Request, Response } from 'express';
+import { Server as HttpServer } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Logger } from './utils/logger.js';
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+}
+
+interface Session {
+  server: Server;
+  transport: SSEServerTransport;
+  connectedAt: Date;
+}
+
+/**
+ * Each client opens an event stream with GET /sse and receives the URL to
+ * POST its messages to. Every stream gets its own MCP Server, so the
+ * initialize handshake, request IDs and notifications never cross clients.
+ */
+export class KiwiHttpServer {
+  private logger: Logger;
+  private app = express();
+  private sessions = new Map<string, Session>();
+  private httpServer?: HttpServer;
+
+  constructor(private createServer: (sessionId: string) => Server, private options: HttpServerOptions) {
+    this.logger = new Logger('KiwiHttpServer');
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // No body parsing middleware: the SSE transport reads the raw POST body itself
+    this.app.get(SSE_PATH, (req, res) => this.openSession(req, res));
+    this.app.post(MESSAGES_PATH, (req, res) => this.handleMessage(req, res));
+
+    this.app.get('/health', (req, res) => {
+      res.json({
+        status: 'healthy',
+        service: 'Kiwi TCMS MCP Server',
+        transport: 'http',
+        sessions: this.sessions.size
+      });
+    });
+  }
+
+  private async openSession(req: Request, res: Response): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+    const server = this.createServer(sessionId);
+
+    this.sessions.set(sessionId, { server, transport, connectedAt: new Date() });
+    server.onclose = () => {
+      this.sessions.delete(sessionId);
+      this.logger.info(`MCP session closed: ${sessionId}`, { sessions: this.sessions.size });
+    };
+
+    try {
+      await server.connect(transport);
+      this.logger.info(`MCP session opened: ${sessionId}`, {
+        remote: req.socket.remoteAddress,
+        sessions: this.sessions.size
+      });
+    } catch (error) {
+      this.sessions.delete(sessionId);
+      this.logger.error(`Failed to open MCP session ${sessionId}:`, error);
+      if (!res.headersSent) {
+        res.status(500).end('Failed to open MCP session');
+      }
+    }
+  }
+
+  private async handleMessage(req: Request, res: Response): Promise<void> {
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : '';
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      res.status(404).json({
+        error: 'Unknown MCP session',
+        message: `No open session ${sessionId || '(missing sessionId)'}; connect to ${SSE_PATH} first`
+      });
+      return;
+    }
+
+    try {
+      await session.transport.handlePostMessage(req, res);
+    } catch (error) {
+      this.logger.error(`Failed to handle message for session ${sessionId}:`, error);
+    }
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const httpServer = this.app.listen(this.options.port, this.options.host, () => {
+        this.logger.info(`Kiwi TCMS MCP Server listening on http://${this.options.host}:${this.options.port}${SSE_PATH}`);
+        resolve();
+      });
+      httpServer.on('error', reject);
+      this.httpServer = httpServer;
+    });
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([...this.sessions.values()].map(session => session.server.close()));
+    await new Promise<void>(resolve => (this.httpServer ? this.httpServer.close(() => resolve()) : resolve()));
+  }
+}
@@ -6,61 +6,107 @@ import {
   CallToolRequestSchema,
   ErrorCode,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ReadResourceResult,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
   McpError,
   CallToolResult,
 } from '@modelcontextprotocol/sdk/types.js';
-import { KiwiApiClient } from './kiwiApiClient.js';
+import { KiwiInstanceManager } from './kiwiInstanceManager.js';
 import { KiwiToolRegistry } from './toolRegistry.js';
+import { KiwiResourceRegistry } from './resourceRegistry.js';
+import { KiwiPromptRegistry } from './promptRegistry.js';
 import { Logger } from './utils/logger.js';
-import { validateEnvironment } from './utils/validation.js';
+import { loadInstanceConfigs } from './utils/instances.js';
+import { KiwiApiError } from './utils/errors.js';
+import { parseCliOptions } from './utils/cli.js';
+import { ConfigOverrides, SERVER_NAME, SERVER_VERSION, ServerConfig, loadServerConfig } from './utils/config.js';
+import { KiwiHttpServer } from './httpServer.js';
 
 const logger = new Logger('KiwiMCPServer');
 
+// Resources and prompts have no structured error result like tools do, so
+// Kiwi errors become protocol errors carrying their code and hint
+function toMcpError(error: unknown, context: string): McpError {
+  if (error instanceof KiwiApiError) {
+    const code = error.code === 'VALIDATION' || error.code === 'NOT_FOUND'
+      ? ErrorCode.InvalidParams
+      : ErrorCode.InternalError;
+    return new McpError(code, `${error.message} (${error.hint})`, { code: error.code });
+  }
+  return new McpError(ErrorCode.InternalError, `${context}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+}
+
 class KiwiMCPServer {
-  private server: Server;
-  private apiClient: KiwiApiClient;
+  private instances: KiwiInstanceManager;
   private toolRegistry: KiwiToolRegistry;
+  private resourceRegistry: KiwiResourceRegistry;
+  private promptRegistry: KiwiPromptRegistry;
+  private httpServer?: KiwiHttpServer;
+  private config: ServerConfig;
 
-  constructor() {
-    // Validate environment variables
-    validateEnvironment();
+  constructor(overrides: ConfigOverrides) {
+    // Load and validate the configuration: file, profile, environment and flags
+    const loaded = loadServerConfig(overrides);
+    this.config = loaded.config;
+    Logger.configure(this.config.logging);
+    if (loaded.file) {
+      logger.info(`Configuration loaded from ${loaded.file}${loaded.profile ? ` (profile ${loaded.profile})` : ''}`);
+    }
+
+    this.instances = new KiwiInstanceManager(loadInstanceConfigs(this.config));
+    this.toolRegistry = new KiwiToolRegistry(this.instances);
+    this.resourceRegistry = new KiwiResourceRegistry(this.instances);
+    this.promptRegistry = new KiwiPromptRegistry(this.instances);
+  }
 
-    this.server = new Server(
+  // One MCP server per client connection (a single one on stdio); the
+  // registries and Kiwi clients behind them are shared
+  private createServer(sessionId: string): Server {
+    const server = new Server(
       {
-        name: 'kiwi-tcms-mcp-server',
-        version: '1.0.0',
+        name: SERVER_NAME,
+        version: SERVER_VERSION,
       },
       {
         capabilities: {
           tools: {},
           resources: {},
+          prompts: {},
         },
       }
     );
 
-    this.apiClient = new KiwiApiClient();
-    this.toolRegistry = new KiwiToolRegistry(this.apiClient);
-    
-    this.setupHandlers();
+    this.setupHandlers(server, sessionId);
+    return server;
   }
 
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, sessionId: string): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       logger.info('Listing available Kiwi TCMS tools');
       return {
         tools: this.toolRegistry.getToolDefinitions(),
       };
     });
 
-    // Handle tool calls
-    this.server.setRequestHandler(CallToolRequestSchema, async (request): Promise<CallToolResult> => {
+    // Handle tool calls; each request's log lines share a correlation ID
+    server.setRequestHandler(CallToolRequestSchema, (request): Promise<CallToolResult> => Logger.withCorrelationId(Logger.newCorrelationId(), async () => {
       const { name, arguments: args } = request.params;
       
       logger.info(`Executing Kiwi TCMS tool: ${name}`, { args });
 
       try {
-        const result = await this.toolRegistry.executeTool(name, args || {});
+        // The client announces itself in the initialize handshake
+        const clientInfo = server.getClientVersion();
+        const result = await this.toolRegistry.executeTool(name, args || {}, {
+          session: sessionId,
+          client: clientInfo && `${clientInfo.name}/${clientInfo.version}`
+        });
         logger.info(`Kiwi TCMS tool ${name} executed successfully`);
         return result;
       } catch (error) {
@@ -72,34 +118,107 @@ class KiwiMCPServer {
           `Failed to execute ${name}: ${errorMessage}`
         );
       }
+    }));
+
+    // List resources and resource templates
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      logger.info('Listing Kiwi TCMS resources');
+      return {
+        resources: await this.resourceRegistry.listResources(),
+      };
     });
 
-    // Handle server shutdown gracefully
-    process.on('SIGINT', () => {
-      logger.info('Received SIGINT, shutting down Kiwi TCMS MCP server gracefully...');
-      process.exit(0);
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: this.resourceRegistry.getResourceTemplates(),
+      };
     });
 
-    process.on('SIGTERM', () => {
-      logger.info('Received SIGTERM, shutting down Kiwi TCMS MCP server gracefully...');
-      process.exit(0);
+    // Read a kiwi:// resource
+    server.setRequestHandler(ReadResourceRequestSchema, (request): Promise<ReadResourceResult> => Logger.withCorrelationId(Logger.newCorrelationId(), async () => {
+      const { uri } = request.params;
+
+      try {
+        return await this.resourceRegistry.readResource(uri);
+      } catch (error) {
+        logger.error(`Error reading Kiwi TCMS resource ${uri}:`, error);
+        throw toMcpError(error, `Failed to read ${uri}`);
+      }
+    }));
+
+    // List and build workflow prompts
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: this.promptRegistry.getPromptDefinitions(),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, (request) => Logger.withCorrelationId(Logger.newCorrelationId(), async () => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        return await this.promptRegistry.getPrompt(name, args || {});
+      } catch (error) {
+        logger.error(`Error building Kiwi TCMS prompt ${name}:`, error);
+        throw toMcpError(error, `Failed to build prompt ${name}`);
+      }
+    }));
+
+    // Argument completion for prompts
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      if (ref.type !== 'ref/prompt') {
+        return { completion: { values: [] } };
+      }
+
+      // Newer clients send the arguments filled in so far as context
+      const { context } = request.params as { context?: { arguments?: Record<string, string> } };
+      const filledIn = context?.arguments || {};
+      return {
+        completion: await this.promptRegistry.complete(ref.name as string, argument.name, argument.value, filledIn),
+      };
     });
   }
 
+  private setupShutdown(): void {
+    // Handle server shutdown gracefully
+    const shutdown = async (signal: string) => {
+      logger.info(`Received ${signal}, shutting down Kiwi TCMS MCP server gracefully...`);
+      await this.httpServer?.close();
+      process.exit(0);
+    };
+
+    process.on('SIGINT', () => shutdown('SIGINT'));
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+  }
+
   async start(): Promise<void> {
     try {
-      // Test Kiwi TCMS connection
-      await this.apiClient.testConnection();
-      
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
+      // Test Kiwi TCMS connections
+      await this.instances.connectAll();
+      await this.toolRegistry.loadPlugins();
+      this.setupShutdown();
       
-      logger.info('Kiwi TCMS MCP Server is running on stdio');
+      if (this.config.server.transport === 'http') {
+        this.httpServer = new KiwiHttpServer(sessionId => this.createServer(sessionId), this.config.server);
+        await this.httpServer.listen();
+      } else {
+        await this.createServer('stdio').connect(new StdioServerTransport());
+        logger.info('Kiwi TCMS MCP Server is running on stdio');
+      }
+
       logger.info('Available tool categories:');
-      logger.info('  • Discovery: list_products, list_plans, list_cases, get_case');
-      logger.info('  • Execution: create_run, add_cases_to_run, get_run, execute_case');
-      logger.info('  • Reporting: run_report, attach_artifact, link_jira');
-      logger.info('  • Authoring: create_case, update_case');
+      for (const [category, names] of Object.entries(this.toolRegistry.toolsByCategory())) {
+        logger.info(`  • ${category}: ${names.map(name => name.replace(/^kiwi\./, '')).join(', ')}`);
+      }
+      const hidden = this.toolRegistry.hiddenTools();
+      if (this.toolRegistry.readOnly || Object.keys(hidden).length > 0) {
+        logger.info(`Tool access: ${this.toolRegistry.readOnly ? 'read-only mode, ' : ''}${Object.keys(hidden).length} tool(s) hidden`, hidden);
+      }
+      if (this.toolRegistry.audit.enabled) {
+        logger.info(`Audit log: ${this.toolRegistry.audit.config.path}`);
+      }
+      logger.info(`Kiwi TCMS instances: ${this.instances.names().join(', ')} (default: ${this.instances.defaultInstance})`);
     } catch (error) {
       logger.error('Failed to start Kiwi TCMS MCP server:', error);
       process.exit(1);
@@ -109,7 +228,7 @@ class KiwiMCPServer {
 
 // Start the server
 async function main() {
-  const server = new KiwiMCPServer();
+  const server = new KiwiMCPServer(parseCliOptions());
   await server.start();
 }
 
@@ -1,55 +1,136 @@
 // Kiwi TCMS API Client
 
-import axios, { AxiosInstance, AxiosResponse, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
 import { Logger } from './utils/logger.js';
+import { KiwiApiError, KiwiValidationError, createKiwiApiError, extractFieldErrors } from './utils/errors.js';
+import {
+  IDEMPOTENCY_KEY_HEADER,
+  computeBackoffDelay,
+  isReplayableRequest,
+  isTransientFailure,
+  parseRetryAfter,
+  sleep
+} from './utils/retry.js';
+import {
+  DEFAULT_CASE_STATUSES,
+  DEFAULT_EXECUTION_STATUSES,
+  DEFAULT_PLAN_TYPES,
+  DEFAULT_PRIORITIES,
+  findStatusByName,
+  statusOutcome
+} from './utils/statuses.js';
+import { LookupCache, queryKey } from './utils/cache.js';
+import { serverConfig } from './utils/config.js';
+import { isCollectingWrites, recordWrite } from './utils/auditLog.js';
+import { fieldChanges } from './utils/dryRun.js';
+import { paginateResults } from './utils/pagination.js';
 import { 
   KiwiProduct, 
+  KiwiVersion,
   KiwiTestPlan, 
   KiwiTestCase, 
   KiwiTestRun, 
   KiwiTestExecution,
   KiwiBuild,
   KiwiEnvironment,
+  KiwiEnvironmentProperty,
   KiwiTag,
+  KiwiComponent,
+  KiwiCategory,
+  KiwiCaseDetails,
   KiwiUser,
   PaginatedResponse,
-  KiwiApiError
+  KiwiErrorCode,
+  KiwiTransport,
+  KiwiInstanceConfig,
+  KiwiAuthProvider,
+  PageQuery,
+  ProductQuery,
+  TestPlanQuery,
+  VersionQuery,
+  TestCaseQuery,
+  TestCaseSearch,
+  TestRunQuery,
+  TestExecutionQuery,
+  BuildQuery,
+  EnvironmentQuery,
+  TagQuery,
+  ComponentQuery,
+  CategoryQuery,
+  UserQuery,
+  RetryPolicy,
+  KiwiExecutionStatus,
+  KiwiPriority,
+  KiwiCaseStatus,
+  KiwiPlanType,
+  StatusOutcome,
+  CacheStats
 } from './types/index.js';
+import { createTransport } from './transports/index.js';
+import { createAuthProvider, isJsonRpcAuthFailure } from './auth/index.js';
 
 export class KiwiApiClient {
   private client: AxiosInstance;
+  private transport: KiwiTransport;
   private logger: Logger;
-  private baseUrl: string;
-  private token: string;
-  private mockMode: boolean;
-
-  constructor() {
-    this.logger = new Logger('KiwiApiClient');
-    this.baseUrl = process.env.KIWI_BASE_URL!;
-    this.token = process.env.KIWI_TOKEN!;
-    this.mockMode = process.env.MOCK_MODE === 'true' || this.token === 'MOCK_MODE_FOR_TESTING';
-
-    if (this.mockMode) {
-      this.logger.info('🔧 Running in MOCK MODE - using test data');
+  private pageSize: number;
+  private maxFetchItems: number;
+  private retryPolicy: RetryPolicy;
+  private idempotencyScope = new AsyncLocalStorage<{ key: string; sequence: number }>();
+  private executionStatuses: KiwiExecutionStatus[] = DEFAULT_EXECUTION_STATUSES;
+  private priorities: KiwiPriority[] = DEFAULT_PRIORITIES;
+  private caseStatuses: KiwiCaseStatus[] = DEFAULT_CASE_STATUSES;
+  private planTypes: KiwiPlanType[] = DEFAULT_PLAN_TYPES;
+  private cache: LookupCache;
+  private auth: KiwiAuthProvider;
+
+  constructor(readonly instance: KiwiInstanceConfig) {
+    const { request, retry, cache } = serverConfig();
+    this.logger = new Logger(`KiwiApiClient:${instance.name}`);
+    this.pageSize = request.page_size;
+    this.maxFetchItems = request.max_fetch_items;
+    this.retryPolicy = { maxRetries: retry.max, baseDelayMs: retry.base_delay_ms, maxDelayMs: retry.max_delay_ms };
+    this.cache = new LookupCache(cache.ttl, cache.enabled);
+    this.auth = createAuthProvider(instance.auth, instance.baseUrl, instance.timeoutMs);
+
+    if (instance.transport === 'mock') {
+      this.logger.info('🔧 Running in MOCK MODE - using in-memory test data', {
+        fixture: instance.mockFixture || 'built-in'
+      });
     }
 
     this.client = axios.create({
-      baseURL: `${this.baseUrl}/api/v1/`,
+      baseURL: instance.baseUrl,
       headers: {
-        'Authorization': `Token ${this.token}`,
         'Content-Type': 'application/json',
         'Accept': 'application/json'
       },
-      timeout: 30000
+      timeout: instance.timeoutMs
     });
 
     this.setupInterceptors();
+
+    this.transport = createTransport(instance.transport, this.client, {
+      username: instance.username,
+      mockFixture: instance.mockFixture
+    });
+    this.logger.debug(`Using ${instance.transport} transport`, { baseUrl: instance.baseUrl });
   }
 
   private setupInterceptors(): void {
     // Request interceptor
     this.client.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        Object.assign(config.headers, await this.auth.getHeaders());
+        config.authGeneration = this.auth.generation;
+
+        // A keyed write is retried, which is only safe if the server deduplicates it
+        const scope = this.idempotencyScope.getStore();
+        if (scope && this.instance.idempotencyKeys && !config.headers[IDEMPOTENCY_KEY_HEADER]) {
+          config.headers[IDEMPOTENCY_KEY_HEADER] = `${scope.key}:${++scope.sequence}`;
+        }
+
         this.logger.debug(`Making request to ${config.method?.toUpperCase()} ${config.url}`, {
           params: config.params,
           data: config.data
@@ -64,20 +145,86 @@ export class KiwiApiClient {
 
     // Response interceptor
     this.client.interceptors.response.use(
-      (response: AxiosResponse) => {
+      async (response: AxiosResponse) => {
         this.logger.debug(`Response from ${response.config.url}:`, {
           status: response.status,
           data: response.data
         });
+
+        if (isJsonRpcAuthFailure(response.data)) {
+          return (await this.replayWithFreshCredentials(response.config)) || response;
+        }
         return response;
       },
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
+        // Already converted (e.g. a failed login in the request interceptor)
+        if (error instanceof KiwiApiError) {
+          return Promise.reject(error);
+        }
+
+        if (error.response?.status === 401 && error.config) {
+          const replayed = await this.replayWithFreshCredentials(error.config);
+          if (replayed) return replayed;
+        }
+
+        const delay = this.getRetryDelay(error);
+        if (delay !== undefined && error.config) {
+          const attempt = (error.config.retryAttempt || 0) + 1;
+          error.config.retryAttempt = attempt;
+
+          this.logger.warn(
+            `Retrying ${error.config.method?.toUpperCase()} ${error.config.url} ` +
+            `(attempt ${attempt}/${this.retryPolicy.maxRetries}) in ${delay}ms`,
+            { status: error.response?.status, code: error.code }
+          );
+
+          await sleep(delay);
+          return this.client.request(error.config);
+        }
+
         this.handleApiError(error);
         return Promise.reject(error);
       }
     );
   }
 
+  // A rejected credential never reached the handler, so the request is
+  // safe to replay once, whatever its method, if the provider can renew it
+  private async replayWithFreshCredentials(config: InternalAxiosRequestConfig): Promise<AxiosResponse | undefined> {
+    if (config.authRetried || !(await this.auth.refresh(config.authGeneration ?? this.auth.generation))) {
+      return undefined;
+    }
+
+    config.authRetried = true;
+    this.logger.info(`Credentials renewed; replaying ${config.method?.toUpperCase()} ${config.url}`);
+    return this.client.request(config);
+  }
+
+  // Returns how long to wait before retrying, or undefined if the failure
+  // should surface: not transient, not safe to replay, out of attempts, or
+  // the server asked us to wait longer than the policy allows.
+  private getRetryDelay(error: AxiosError): number | undefined {
+    const attempt = (error.config?.retryAttempt || 0) + 1;
+    if (attempt > this.retryPolicy.maxRetries) return undefined;
+    if (!isTransientFailure(error) || !isReplayableRequest(error)) return undefined;
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      return retryAfter <= this.retryPolicy.maxDelayMs ? retryAfter : undefined;
+    }
+    return computeBackoffDelay(this.retryPolicy, attempt);
+  }
+
+  /**
+   * Run an operation whose write requests all carry an Idempotency-Key
+   * derived from `key`, which makes them eligible for automatic retries.
+   * Without `idempotency_keys` on the instance no key is sent, and the
+   * writes stay single-shot.
+   */
+  withIdempotencyKey<T>(key: string, operation: () => Promise<T>): Promise<T> {
+    return this.idempotencyScope.run({ key, sequence: 0 }, operation);
+  }
+
   private handleApiError(error: AxiosError): void {
     const status = error.response?.status;
     const data = error.response?.data;
@@ -88,18 +235,20 @@ export class KiwiApiClient {
       data: data
     });
 
-    // Convert to standardized error format
-    const kiwiError: KiwiApiError = {
-      code: this.mapStatusToErrorCode(status),
-      message: this.extractErrorMessage(data),
-      upstream_status: status,
-      details: { kiwi_response: data }
-    };
-
-    throw kiwiError;
+    // Convert to a typed Kiwi error; with no response (network failure)
+    // the transport error's own message is the most useful thing we have
+    throw createKiwiApiError(
+      this.mapStatusToErrorCode(status),
+      error.response ? this.extractErrorMessage(data) : error.message,
+      {
+        upstreamStatus: status,
+        kiwiResponse: data,
+        fieldErrors: status === 400 ? extractFieldErrors(data) : undefined
+      }
+    );
   }
 
-  private mapStatusToErrorCode(status?: number): KiwiApiError['code'] {
+  private mapStatusToErrorCode(status?: number): KiwiErrorCode {
     switch (status) {
       case 400: return 'VALIDATION';
       case 401:
@@ -116,22 +265,16 @@ export class KiwiApiClient {
     if (data?.detail) return data.detail;
     if (data?.message) return data.message;
     if (data?.error) return data.error;
+    if (extractFieldErrors(data)) return 'Kiwi TCMS rejected one or more fields';
     return 'Unknown API error';
   }
 
   async testConnection(): Promise<void> {
-    if (this.mockMode) {
-      this.logger.info('🔧 Mock mode connection test - SUCCESS', {
-        mockData: 'Using test data for demo purposes'
-      });
-      return;
-    }
-
     try {
-      const response = await this.client.get('products/', { params: { limit: 1 } });
+      const response = await this.transport.getProducts({ limit: 1 });
       this.logger.info('Kiwi TCMS connection test successful', {
-        status: response.status,
-        itemCount: response.data.count
+        transport: this.transport.kind,
+        itemCount: response.count
       });
     } catch (error) {
       this.logger.error('Kiwi TCMS connection test failed:', error);
@@ -139,442 +282,635 @@ export class KiwiApiClient {
     }
   }
 
-  // Mock data for testing
-  private getMockProducts(): PaginatedResponse<KiwiProduct> {
-    return {
-      count: 2,
-      next: undefined,
-      previous: undefined,
-      results: [
-        {
-          id: 1,
-          name: 'Demo Web Application',
-          description: 'Test management for our demo web application'
-        },
-        {
-          id: 2,
-          name: 'Mobile App Testing',
-          description: 'Test cases for mobile application features'
-        }
-      ]
-    };
-  }
-
-  private getMockTestPlans(): PaginatedResponse<KiwiTestPlan> {
-    return {
-      count: 3,
-      next: undefined,
-      previous: undefined,
-      results: [
-        {
-          id: 1,
-          name: 'Login & Authentication Tests',
-          text: 'Comprehensive testing of login functionality',
-          product: 1,
-          product_version: 1,
-          author: 1,
-          type: 1,
-          is_active: true,
-          create_date: '2025-01-01T10:00:00Z'
-        },
-        {
-          id: 2,
-          name: 'API Endpoint Tests',
-          text: 'Testing all REST API endpoints',
-          product: 1,
-          product_version: 1,
-          author: 1,
-          type: 1,
-          is_active: true,
-          create_date: '2025-01-02T10:00:00Z'
-        },
-        {
-          id: 3,
-          name: 'Mobile UI Tests',
-          text: 'User interface testing on mobile devices',
-          product: 2,
-          product_version: 1,
-          author: 1,
-          type: 1,
-          is_active: true,
-          create_date: '2025-01-03T10:00:00Z'
-        }
-      ]
-    };
-  }
-
-  private getMockTestCases(): PaginatedResponse<KiwiTestCase> {
-    return {
-      count: 5,
-      next: undefined,
-      previous: undefined,
-      results: [
-        {
-          id: 1,
-          summary: 'Test user login with valid credentials',
-          text: 'Navigate to login page, enter valid credentials, and verify successful login',
-          setup: 'Browser opened, test environment ready',
-          breakdown: 'Close browser, clean test data',
-          action: '1. Navigate to login page\n2. Enter valid username and password\n3. Click login button',
-          expected_result: 'User should be logged in successfully and redirected to dashboard',
-          notes: 'Test with different valid user accounts',
-          case_status: 1,
-          category: 1,
-          priority: 2,
-          author: 1,
-          create_date: '2025-01-01T10:00:00Z',
-          is_automated: false
-        },
-        {
-          id: 2,
-          summary: 'Test user login with invalid credentials',
-          text: 'Verify error handling for invalid login attempts',
-          setup: 'Browser opened, test environment ready',
-          breakdown: 'Close browser',
-          action: '1. Navigate to login page\n2. Enter invalid username or password\n3. Click login button',
-          expected_result: 'Error message should be displayed, user not logged in',
-          notes: 'Test various invalid combinations',
-          case_status: 1,
-          category: 1,
-          priority: 2,
-          author: 1,
-          create_date: '2025-01-01T11:00:00Z',
-          is_automated: false
-        },
-        {
-          id: 3,
-          summary: 'Test password reset functionality',
-          text: 'Verify password reset email functionality',
-          setup: 'Test email account configured',
-          breakdown: 'Clean email inbox',
-          action: '1. Click forgot password link\n2. Enter email address\n3. Submit form',
-          expected_result: 'Password reset email should be sent',
-          notes: 'Check email delivery and reset link',
-          case_status: 1,
-          category: 1,
-          priority: 3,
-          author: 1,
-          create_date: '2025-01-01T12:00:00Z',
-          is_automated: false
-        },
-        {
-          id: 4,
-          summary: 'Test GET /api/users endpoint',
-          text: 'API endpoint validation for user retrieval',
-          setup: 'API test environment, valid auth token',
-          breakdown: 'Clean test data',
-          action: '1. Send GET request to /api/users\n2. Verify response status\n3. Validate response format',
-          expected_result: '200 status with valid user list JSON',
-          notes: 'Automated API test',
-          case_status: 1,
-          category: 2,
-          priority: 2,
-          author: 1,
-          create_date: '2025-01-02T10:00:00Z',
-          is_automated: true
-        },
-        {
-          id: 5,
-          summary: 'Test mobile navigation menu',
-          text: 'Mobile UI navigation functionality',
-          setup: 'Mobile device/emulator ready',
-          breakdown: 'Close app',
-          action: '1. Open mobile app\n2. Tap hamburger menu\n3. Verify all menu items',
-          expected_result: 'All navigation options should be visible and functional',
-          notes: 'Test on multiple screen sizes',
-          case_status: 1,
-          category: 3,
-          priority: 2,
-          author: 1,
-          create_date: '2025-01-03T10:00:00Z',
-          is_automated: false
-        }
-      ]
-    };
-  }
-
-  private getMockTestRuns(): PaginatedResponse<KiwiTestRun> {
-    return {
-      count: 2,
-      next: undefined,
-      previous: undefined,
-      results: [
-        {
-          id: 1,
-          summary: 'Authentication Test Run - Sprint 1',
-          plan: 1,
-          build: 1,
-          manager: 1,
-          default_tester: 1,
-          start_date: '2025-01-10T09:00:00Z',
-          stop_date: undefined,
-          notes: 'Testing all login and authentication features for sprint 1'
-        },
-        {
-          id: 2,
-          summary: 'API Testing Run - Sprint 1',
-          plan: 2,
-          build: 1,
-          manager: 1,
-          default_tester: 1,
-          start_date: '2025-01-11T09:00:00Z',
-          stop_date: undefined,
-          notes: 'Comprehensive API endpoint testing'
-        }
-      ]
-    };
-  }
+  // Entity operations
+  // Reference data (products, builds, environments, tags, users) and single
+  // plans/cases are served from the lookup cache; writes update or invalidate
+  // the affected entries so callers never see their own changes go missing.
 
   // Products
-  async getProducts(params: { limit?: number; offset?: number; name?: string } = {}): Promise<PaginatedResponse<KiwiProduct>> {
-    if (this.mockMode) {
-      this.logger.debug('🔧 Mock: getProducts', params);
-      return this.getMockProducts();
-    }
-    const response = await this.client.get('products/', { params });
-    return response.data;
+  async getProducts(params: ProductQuery = {}): Promise<PaginatedResponse<KiwiProduct>> {
+    return this.cache.get('products', queryKey(params), () => this.transport.getProducts(params));
   }
 
   async getProduct(id: number): Promise<KiwiProduct> {
-    if (this.mockMode) {
-      const products = this.getMockProducts().results;
-      const product = products.find(p => p.id === id);
-      if (!product) throw { code: 'NOT_FOUND', message: `Product ${id} not found` };
-      return product;
-    }
-    const response = await this.client.get(`products/${id}/`);
-    return response.data;
+    return this.cache.get('products', `id:${id}`, () => this.transport.getProduct(id));
   }
 
   // Test Plans
-  async getTestPlans(params: { limit?: number; offset?: number; product?: number; name?: string } = {}): Promise<PaginatedResponse<KiwiTestPlan>> {
-    if (this.mockMode) {
-      this.logger.debug('🔧 Mock: getTestPlans', params);
-      return this.getMockTestPlans();
-    }
-    const response = await this.client.get('testplans/', { params });
-    return response.data;
+  async getTestPlans(params: TestPlanQuery = {}): Promise<PaginatedResponse<KiwiTestPlan>> {
+    return this.transport.getTestPlans(params);
   }
 
   async getTestPlan(id: number): Promise<KiwiTestPlan> {
-    if (this.mockMode) {
-      const plans = this.getMockTestPlans().results;
-      const plan = plans.find(p => p.id === id);
-      if (!plan) throw { code: 'NOT_FOUND', message: `Test Plan ${id} not found` };
-      return plan;
+    return this.cache.get('plans', `id:${id}`, () => this.transport.getTestPlan(id));
+  }
+
+  async createTestPlan(planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan> {
+    const plan = await this.transport.createTestPlan(planData);
+    this.cache.set('plans', `id:${plan.id}`, plan);
+    recordWrite({ action: 'create', entity: 'plan', id: plan.id, data: planData });
+    return plan;
+  }
+
+  async updateTestPlan(id: number, planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan> {
+    const before = await this.auditedBefore(() => this.transport.getTestPlan(id));
+    this.cache.invalidate('plans', `id:${id}`);
+    const plan = await this.transport.updateTestPlan(id, planData);
+    this.cache.set('plans', `id:${id}`, plan);
+    recordWrite({ action: 'update', entity: 'plan', id, data: planData, changes: before && fieldChanges(before, planData) });
+    return plan;
+  }
+
+  async addCaseToPlan(planId: number, caseId: number): Promise<void> {
+    await this.transport.addCaseToPlan(planId, caseId);
+    recordWrite({ action: 'link', entity: 'case', id: caseId, data: { plan: planId } });
+  }
+
+  // Versions
+  async getVersions(params: VersionQuery = {}): Promise<PaginatedResponse<KiwiVersion>> {
+    return this.cache.get('versions', queryKey(params), () => this.transport.getVersions(params));
+  }
+
+  /** The product's version with the given name; an unknown name is an argument error. */
+  async findVersion(productId: number, value: string): Promise<KiwiVersion> {
+    const [version] = (await this.getVersions({ product: productId, value: value.trim() })).results;
+    if (!version) {
+      throw new KiwiValidationError(`Unknown version ${value} for product ${productId}`, {
+        hint: 'Use a version name listed by kiwi.list_versions, or add it with kiwi.create_version.'
+      });
     }
-    const response = await this.client.get(`testplans/${id}/`);
-    return response.data;
+    return version;
+  }
+
+  async createVersion(versionData: { value: string; product: number }): Promise<KiwiVersion> {
+    const version = await this.transport.createVersion(versionData);
+    this.cache.invalidate('versions', 'list:');
+    recordWrite({ action: 'create', entity: 'version', id: version.id, data: versionData });
+    return version;
   }
 
   // Test Cases
-  async getTestCases(params: { 
-    limit?: number; 
-    offset?: number; 
-    plan?: number; 
-    summary?: string;
-    tag?: string;
-  } = {}): Promise<PaginatedResponse<KiwiTestCase>> {
-    if (this.mockMode) {
-      this.logger.debug('🔧 Mock: getTestCases', params);
-      let cases = this.getMockTestCases().results;
-      
-      // In mock mode, we simulate plan filtering by case categories
-      // (since plan relationships would be in a separate table in real Kiwi TCMS)
-      if (params.plan) {
-        // Mock filter logic: plan 1 = category 1, plan 2 = category 2, etc.
-        cases = cases.filter(c => c.category === params.plan!);
+  async getTestCases(params: TestCaseQuery = {}): Promise<PaginatedResponse<KiwiTestCase>> {
+    return this.transport.getTestCases(params);
+  }
+
+  async getTestCase(id: number): Promise<KiwiTestCase> {
+    return this.cache.get('cases', `id:${id}`, () => this.transport.getTestCase(id));
+  }
+
+  /**
+   * Test cases matching every filter of `search`. Filters the transport
+   * can't apply are checked here on the full result set, and `all_tags`
+   * intersects one query per tag, so only a search the server answers in
+   * one query is paged server-side.
+   */
+  async searchTestCases(search: TestCaseSearch, page: PageQuery = {}): Promise<PaginatedResponse<KiwiTestCase>> {
+    const { all_tags: allTags = [], ...filters } = search;
+    const supported = new Set<string>(this.transport.caseFilters);
+    const server: Record<string, unknown> = {};
+    const local: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(filters)) {
+      if (value !== undefined) {
+        (supported.has(key) ? server : local)[key] = value;
+      }
+    }
+
+    // Without server-side plan lists, ask once per plan and merge
+    let queries: TestCaseQuery[] = [server];
+    if (local.plans) {
+      queries = (local.plans as number[]).map(plan => ({ ...server, plan }));
+      delete local.plans;
+    }
+    const tagQueries = supported.has('tags') ? allTags : [];
+    if (tagQueries.length === 0 && allTags.length > 0) {
+      local.all_tags = allTags;
+    }
+
+    if (queries.length === 1 && tagQueries.length === 0 && Object.keys(local).length === 0) {
+      return this.getTestCases({ ...queries[0], ...page });
+    }
+
+    const matches = new Map<number, KiwiTestCase>();
+    for (const query of queries) {
+      for (const testCase of await this.casesWithAllTags(query, tagQueries)) {
+        matches.set(testCase.id, testCase);
       }
-      
-      return {
-        count: cases.length,
-        next: undefined,
-        previous: undefined,
-        results: cases
-      };
     }
-    const response = await this.client.get('testcases/', { params });
-    return response.data;
+
+    const cases = [...matches.values()].filter(testCase => matchesCaseSearch(testCase, local));
+    if (queries.length > 1) {
+      cases.sort((a, b) => a.id - b.id);
+    }
+    return paginateResults(cases, page.limit, page.offset);
   }
 
-  async getTestCase(id: number): Promise<KiwiTestCase> {
-    if (this.mockMode) {
-      const cases = this.getMockTestCases().results;
-      const testCase = cases.find(c => c.id === id);
-      if (!testCase) throw { code: 'NOT_FOUND', message: `Test Case ${id} not found` };
-      return testCase;
+  // Cases matching `query` that carry every tag in `tags`, in server order
+  private async casesWithAllTags(query: TestCaseQuery, tags: number[]): Promise<KiwiTestCase[]> {
+    if (tags.length === 0) {
+      return this.getAllTestCases(query);
     }
-    const response = await this.client.get(`testcases/${id}/`);
-    return response.data;
+
+    const [first, ...rest] = await Promise.all(tags.map(tag => this.getAllTestCases({ ...query, tags: [tag] })));
+    const others = rest.map(cases => new Set(cases.map(testCase => testCase.id)));
+    return first.filter(testCase => others.every(ids => ids.has(testCase.id)));
   }
 
-  async createTestCase(caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
-    if (this.mockMode) {
-      this.logger.debug('🔧 Mock: createTestCase', caseData);
-      return {
-        id: 999,
-        summary: caseData.summary || 'New Test Case',
-        text: caseData.text || 'Test case created in mock mode',
-        setup: caseData.setup || 'Mock setup',
-        breakdown: caseData.breakdown || 'Mock breakdown',
-        action: caseData.action || 'Mock action steps',
-        expected_result: caseData.expected_result || 'Mock expected result',
-        notes: caseData.notes || 'Created via mock mode',
-        case_status: caseData.case_status || 1,
-        category: caseData.category || 1,
-        priority: caseData.priority || 2,
-        author: caseData.author || 1,
-        create_date: new Date().toISOString(),
-        is_automated: caseData.is_automated || false
-      };
+  /**
+   * Tag, component, category and plan names for each of `cases`, read in
+   * batched requests per relation rather than per case.
+   */
+  async getCaseDetails(cases: KiwiTestCase[]): Promise<Map<number, KiwiCaseDetails>> {
+    const details = new Map<number, KiwiCaseDetails>();
+    if (cases.length === 0) {
+      return details;
+    }
+
+    const caseIds = [...new Set(cases.map(testCase => testCase.id))];
+    const categoryIds = [...new Set(cases.map(testCase => testCase.category))];
+    const [tags, components, plans, categories] = await Promise.all([
+      this.transport.getCaseTags(caseIds),
+      this.transport.getCaseComponents(caseIds),
+      this.transport.getCasePlans(caseIds),
+      this.getAllCategories({ ids: categoryIds })
+    ]);
+
+    const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+    for (const testCase of cases) {
+      details.set(testCase.id, {
+        tags: tags.filter(tag => tag.case === testCase.id).map(tag => tag.name),
+        components: components.filter(component => component.case === testCase.id).map(component => component.name),
+        category: categoryNames.get(testCase.category) ?? null,
+        plans: plans.filter(plan => plan.case === testCase.id).map(plan => ({ id: plan.id, name: plan.name }))
+      });
     }
-    const response = await this.client.post('testcases/', caseData);
-    return response.data;
+    return details;
+  }
+
+  async createTestCase(caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
+    const testCase = await this.transport.createTestCase(caseData);
+    this.cache.set('cases', `id:${testCase.id}`, testCase);
+    recordWrite({ action: 'create', entity: 'case', id: testCase.id, data: caseData });
+    return testCase;
   }
 
   async updateTestCase(id: number, caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
-    if (this.mockMode) {
-      this.logger.debug('🔧 Mock: updateTestCase', { id, caseData });
-      const existing = await this.getTestCase(id);
-      return { ...existing, ...caseData };
-    }
-    const response = await this.client.patch(`testcases/${id}/`, caseData);
-    return response.data;
+    const before = await this.auditedBefore(() => this.transport.getTestCase(id));
+    // Drop the stale copy first so a failed update doesn't leave it behind
+    this.cache.invalidate('cases', `id:${id}`);
+    const testCase = await this.transport.updateTestCase(id, caseData);
+    this.cache.set('cases', `id:${id}`, testCase);
+    recordWrite({ action: 'update', entity: 'case', id, data: caseData, changes: before && fieldChanges(before, caseData) });
+    return testCase;
   }
 
   // Test Runs
-  async getTestRuns(params: { 
-    limit?: number; 
-    offset?: number; 
-    plan?: number; 
-    summary?: string;
-  } = {}): Promise<PaginatedResponse<KiwiTestRun>> {
-    const response = await this.client.get('testruns/', { params });
-    return response.data;
+  async getTestRuns(params: TestRunQuery = {}): Promise<PaginatedResponse<KiwiTestRun>> {
+    return this.transport.getTestRuns(params);
   }
 
   async getTestRun(id: number): Promise<KiwiTestRun> {
-    const response = await this.client.get(`testruns/${id}/`);
-    return response.data;
+    return this.transport.getTestRun(id);
   }
 
   async createTestRun(runData: Partial<KiwiTestRun>): Promise<KiwiTestRun> {
-    const response = await this.client.post('testruns/', runData);
-    return response.data;
+    const testRun = await this.transport.createTestRun(runData);
+    recordWrite({ action: 'create', entity: 'run', id: testRun.id, data: runData });
+    return testRun;
   }
 
   // Test Executions
-  async getTestExecutions(params: { 
-    limit?: number; 
-    offset?: number; 
-    run?: number; 
-    case?: number;
-    status?: number;
-  } = {}): Promise<PaginatedResponse<KiwiTestExecution>> {
-    const response = await this.client.get('testexecutions/', { params });
-    return response.data;
+  async getTestExecutions(params: TestExecutionQuery = {}): Promise<PaginatedResponse<KiwiTestExecution>> {
+    return this.transport.getTestExecutions(params);
   }
 
   async getTestExecution(id: number): Promise<KiwiTestExecution> {
-    const response = await this.client.get(`testexecutions/${id}/`);
-    return response.data;
+    return this.transport.getTestExecution(id);
   }
 
   async createTestExecution(executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution> {
-    const response = await this.client.post('testexecutions/', executionData);
-    return response.data;
+    const execution = await this.transport.createTestExecution(executionData);
+    recordWrite({ action: 'create', entity: 'execution', id: execution.id, data: executionData });
+    return execution;
   }
 
   async updateTestExecution(id: number, executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution> {
-    const response = await this.client.patch(`testexecutions/${id}/`, executionData);
-    return response.data;
+    const before = await this.auditedBefore(() => this.transport.getTestExecution(id));
+    const execution = await this.transport.updateTestExecution(id, executionData);
+    recordWrite({
+      action: 'update',
+      entity: 'execution',
+      id,
+      data: executionData,
+      changes: before && fieldChanges(before, executionData)
+    });
+    return execution;
   }
 
   // Builds
-  async getBuilds(params: { limit?: number; offset?: number; version?: number } = {}): Promise<PaginatedResponse<KiwiBuild>> {
-    const response = await this.client.get('builds/', { params });
-    return response.data;
+  async getBuilds(params: BuildQuery = {}): Promise<PaginatedResponse<KiwiBuild>> {
+    return this.cache.get('builds', queryKey(params), () => this.transport.getBuilds(params));
   }
 
   async getBuild(id: number): Promise<KiwiBuild> {
-    const response = await this.client.get(`builds/${id}/`);
-    return response.data;
+    return this.cache.get('builds', `id:${id}`, () => this.transport.getBuild(id));
   }
 
   async createBuild(buildData: { name: string; version: number }): Promise<KiwiBuild> {
-    const response = await this.client.post('builds/', buildData);
-    return response.data;
+    const build = await this.transport.createBuild(buildData);
+    this.cache.invalidate('builds', 'list:');
+    this.cache.set('builds', `id:${build.id}`, build);
+    recordWrite({ action: 'create', entity: 'build', id: build.id, data: buildData });
+    return build;
+  }
+
+  async updateBuild(id: number, buildData: Partial<KiwiBuild>): Promise<KiwiBuild> {
+    const before = await this.auditedBefore(() => this.transport.getBuild(id));
+    // Cached build lists may be filtered by the fields being changed
+    this.cache.invalidate('builds');
+    const build = await this.transport.updateBuild(id, buildData);
+    this.cache.set('builds', `id:${id}`, build);
+    recordWrite({ action: 'update', entity: 'build', id, data: buildData, changes: before && fieldChanges(before, buildData) });
+    return build;
+  }
+
+  // Current state of an object about to be updated, read only when the call
+  // is audited. Bypasses the cache so the audit shows what the server held.
+  private async auditedBefore<T>(read: () => Promise<T>): Promise<T | undefined> {
+    if (!isCollectingWrites()) {
+      return undefined;
+    }
+    try {
+      return await read();
+    } catch (error) {
+      this.logger.warn('Could not read the current state for the audit log', error);
+      return undefined;
+    }
   }
 
   // Environments
-  async getEnvironments(params: { limit?: number; offset?: number } = {}): Promise<PaginatedResponse<KiwiEnvironment>> {
-    const response = await this.client.get('environments/', { params });
-    return response.data;
+  async getEnvironments(params: EnvironmentQuery = {}): Promise<PaginatedResponse<KiwiEnvironment>> {
+    return this.cache.get('environments', queryKey(params), () => this.transport.getEnvironments(params));
   }
 
   async getEnvironment(id: number): Promise<KiwiEnvironment> {
-    const response = await this.client.get(`environments/${id}/`);
-    return response.data;
+    return this.cache.get('environments', `id:${id}`, () => this.transport.getEnvironment(id));
+  }
+
+  async createEnvironment(environmentData: { name: string; description?: string }): Promise<KiwiEnvironment> {
+    const environment = await this.transport.createEnvironment(environmentData);
+    this.cache.invalidate('environments', 'list:');
+    this.cache.set('environments', `id:${environment.id}`, environment);
+    recordWrite({ action: 'create', entity: 'environment', id: environment.id, data: environmentData });
+    return environment;
+  }
+
+  async getEnvironmentProperties(environmentIds: number[]): Promise<KiwiEnvironmentProperty[]> {
+    if (environmentIds.length === 0) {
+      return [];
+    }
+    return this.transport.getEnvironmentProperties(environmentIds);
+  }
+
+  async addEnvironmentProperty(environmentId: number, name: string, value: string): Promise<KiwiEnvironmentProperty> {
+    const property = await this.transport.addEnvironmentProperty(environmentId, name, value);
+    recordWrite({
+      action: 'create',
+      entity: 'environment_property',
+      id: property.id,
+      data: { environment: environmentId, name, value }
+    });
+    return property;
   }
 
   // Tags
-  async getTags(params: { limit?: number; offset?: number; name?: string } = {}): Promise<PaginatedResponse<KiwiTag>> {
-    const response = await this.client.get('tags/', { params });
-    return response.data;
+  async getTags(params: TagQuery = {}): Promise<PaginatedResponse<KiwiTag>> {
+    return this.cache.get('tags', queryKey(params), () => this.transport.getTags(params));
   }
 
   async getTag(id: number): Promise<KiwiTag> {
-    const response = await this.client.get(`tags/${id}/`);
-    return response.data;
+    return this.cache.get('tags', `id:${id}`, () => this.transport.getTag(id));
+  }
+
+  // Components
+  async getComponents(params: ComponentQuery = {}): Promise<PaginatedResponse<KiwiComponent>> {
+    return this.cache.get('components', queryKey(params), () => this.transport.getComponents(params));
+  }
+
+  async getComponent(id: number): Promise<KiwiComponent> {
+    return this.cache.get('components', `id:${id}`, () => this.transport.getComponent(id));
+  }
+
+  // Categories
+  async getCategories(params: CategoryQuery = {}): Promise<PaginatedResponse<KiwiCategory>> {
+    return this.transport.getCategories(params);
   }
 
   // Users
-  async getUsers(params: { limit?: number; offset?: number; username?: string } = {}): Promise<PaginatedResponse<KiwiUser>> {
-    const response = await this.client.get('users/', { params });
-    return response.data;
+  async getUsers(params: UserQuery = {}): Promise<PaginatedResponse<KiwiUser>> {
+    return this.cache.get('users', queryKey(params), () => this.transport.getUsers(params));
   }
 
   async getUser(id: number): Promise<KiwiUser> {
-    const response = await this.client.get(`users/${id}/`);
-    return response.data;
+    return this.cache.get('users', `id:${id}`, () => this.transport.getUser(id));
   }
 
   async getCurrentUser(): Promise<KiwiUser> {
-    const response = await this.client.get('auth/me/');
-    return response.data;
-  }
-
-  // Helper methods for status mapping
-  private statusMap = {
-    'IDLE': 1,
-    'PASS': 2,
-    'FAIL': 3,
-    'BLOCKED': 4,
-    'ERROR': 5
-  };
-
-  private priorityMap = {
-    'P1': 1,
-    'P2': 2,
-    'P3': 3,
-    'P4': 4
-  };
+    return this.cache.get('users', 'me', () => this.transport.getCurrentUser());
+  }
+
+  // Lookup cache diagnostics
+  getCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // Auto-pagination
+  // iterateX() streams every matching record across pages; getAllX() collects
+  // them. Both stop with an error rather than silently truncate once more than
+  // KIWI_MAX_FETCH_ITEMS records would be read.
+  private async *paginate<T, Q extends PageQuery>(
+    fetchPage: (params: Q) => Promise<PaginatedResponse<T>>,
+    params: Q
+  ): AsyncGenerator<T> {
+    if (!this.transport.serverSidePaging) {
+      // The transport materialises the whole result set anyway; fetch it once
+      const all = await fetchPage({ ...params, limit: undefined, offset: undefined });
+      this.checkFetchCap(all.results.length);
+      yield* all.results;
+      return;
+    }
+
+    let offset = params.offset || 0;
+    let fetched = 0;
+    while (true) {
+      const page = await fetchPage({ ...params, limit: this.pageSize, offset });
+      this.checkFetchCap(fetched + page.results.length);
+      fetched += page.results.length;
+      yield* page.results;
+
+      if (!page.next || page.results.length === 0) {
+        return;
+      }
+      offset += page.results.length;
+    }
+  }
+
+  private checkFetchCap(count: number): void {
+    if (count > this.maxFetchItems) {
+      throw new KiwiValidationError(
+        `Result set exceeds the safety cap of ${this.maxFetchItems} records; narrow the query or raise KIWI_MAX_FETCH_ITEMS`
+      );
+    }
+  }
+
+  private async collect<T>(iterator: AsyncGenerator<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  iterateProducts(params: ProductQuery = {}): AsyncGenerator<KiwiProduct> {
+    return this.paginate(p => this.getProducts(p), params);
+  }
+
+  getAllProducts(params: ProductQuery = {}): Promise<KiwiProduct[]> {
+    return this.collect(this.iterateProducts(params));
+  }
+
+  iterateTestPlans(params: TestPlanQuery = {}): AsyncGenerator<KiwiTestPlan> {
+    return this.paginate(p => this.getTestPlans(p), params);
+  }
+
+  getAllTestPlans(params: TestPlanQuery = {}): Promise<KiwiTestPlan[]> {
+    return this.collect(this.iterateTestPlans(params));
+  }
+
+  iterateVersions(params: VersionQuery = {}): AsyncGenerator<KiwiVersion> {
+    return this.paginate(p => this.getVersions(p), params);
+  }
+
+  getAllVersions(params: VersionQuery = {}): Promise<KiwiVersion[]> {
+    return this.collect(this.iterateVersions(params));
+  }
+
+  iterateTestCases(params: TestCaseQuery = {}): AsyncGenerator<KiwiTestCase> {
+    return this.paginate(p => this.getTestCases(p), params);
+  }
+
+  getAllTestCases(params: TestCaseQuery = {}): Promise<KiwiTestCase[]> {
+    return this.collect(this.iterateTestCases(params));
+  }
+
+  iterateTestRuns(params: TestRunQuery = {}): AsyncGenerator<KiwiTestRun> {
+    return this.paginate(p => this.getTestRuns(p), params);
+  }
+
+  getAllTestRuns(params: TestRunQuery = {}): Promise<KiwiTestRun[]> {
+    return this.collect(this.iterateTestRuns(params));
+  }
+
+  iterateTestExecutions(params: TestExecutionQuery = {}): AsyncGenerator<KiwiTestExecution> {
+    return this.paginate(p => this.getTestExecutions(p), params);
+  }
+
+  getAllTestExecutions(params: TestExecutionQuery = {}): Promise<KiwiTestExecution[]> {
+    return this.collect(this.iterateTestExecutions(params));
+  }
+
+  iterateBuilds(params: BuildQuery = {}): AsyncGenerator<KiwiBuild> {
+    return this.paginate(p => this.getBuilds(p), params);
+  }
+
+  getAllBuilds(params: BuildQuery = {}): Promise<KiwiBuild[]> {
+    return this.collect(this.iterateBuilds(params));
+  }
+
+  iterateEnvironments(params: EnvironmentQuery = {}): AsyncGenerator<KiwiEnvironment> {
+    return this.paginate(p => this.getEnvironments(p), params);
+  }
+
+  getAllEnvironments(params: EnvironmentQuery = {}): Promise<KiwiEnvironment[]> {
+    return this.collect(this.iterateEnvironments(params));
+  }
+
+  iterateTags(params: TagQuery = {}): AsyncGenerator<KiwiTag> {
+    return this.paginate(p => this.getTags(p), params);
+  }
+
+  getAllTags(params: TagQuery = {}): Promise<KiwiTag[]> {
+    return this.collect(this.iterateTags(params));
+  }
+
+  iterateComponents(params: ComponentQuery = {}): AsyncGenerator<KiwiComponent> {
+    return this.paginate(p => this.getComponents(p), params);
+  }
+
+  getAllComponents(params: ComponentQuery = {}): Promise<KiwiComponent[]> {
+    return this.collect(this.iterateComponents(params));
+  }
+
+  iterateCategories(params: CategoryQuery = {}): AsyncGenerator<KiwiCategory> {
+    return this.paginate(p => this.getCategories(p), params);
+  }
+
+  getAllCategories(params: CategoryQuery = {}): Promise<KiwiCategory[]> {
+    return this.collect(this.iterateCategories(params));
+  }
+
+  iterateUsers(params: UserQuery = {}): AsyncGenerator<KiwiUser> {
+    return this.paginate(p => this.getUsers(p), params);
+  }
+
+  getAllUsers(params: UserQuery = {}): Promise<KiwiUser[]> {
+    return this.collect(this.iterateUsers(params));
+  }
+
+  // Execution statuses, priorities, case statuses and plan types
+  // Loaded from the server at startup so custom statuses (WAIVED, RETEST, ...)
+  // and instance-specific priority IDs are honoured; built-in defaults are
+  // only used until then, or if the server can't provide the lists.
+  async loadReferenceData(): Promise<void> {
+    try {
+      const [statuses, priorities, caseStatuses, planTypes] = await Promise.all([
+        this.transport.getExecutionStatuses(),
+        this.transport.getPriorities(),
+        this.transport.getCaseStatuses(),
+        this.transport.getPlanTypes()
+      ]);
+
+      if (statuses.length > 0) this.executionStatuses = statuses;
+      if (priorities.length > 0) this.priorities = priorities;
+      if (caseStatuses.length > 0) this.caseStatuses = caseStatuses;
+      if (planTypes.length > 0) this.planTypes = planTypes;
+
+      this.logger.info('Loaded execution statuses, priorities, case statuses and plan types', {
+        statuses: this.executionStatuses.map(s => s.name),
+        priorities: this.getPriorityNames(),
+        case_statuses: this.getCaseStatusNames(),
+        plan_types: this.getPlanTypeNames()
+      });
+    } catch (error) {
+      this.logger.warn('Could not load execution statuses, priorities, case statuses and plan types; using built-in defaults', error);
+    }
+  }
+
+  getExecutionStatuses(): KiwiExecutionStatus[] {
+    return [...this.executionStatuses];
+  }
+
+  getStatusNames(): string[] {
+    return this.executionStatuses.map(s => s.name);
+  }
+
+  getPriorityNames(): string[] {
+    return this.priorities.filter(p => p.is_active !== false).map(p => p.value);
+  }
+
+  getCaseStatusNames(): string[] {
+    return this.caseStatuses.map(s => s.name);
+  }
+
+  getPlanTypeNames(): string[] {
+    return this.planTypes.map(t => t.name);
+  }
 
   getStatusId(status: string): number {
-    return this.statusMap[status.toUpperCase() as keyof typeof this.statusMap] || 1;
+    const match = findStatusByName(this.executionStatuses, status);
+    if (!match) {
+      throw new KiwiValidationError(`Unknown execution status: ${status}`, {
+        hint: `Use one of: ${this.getStatusNames().join(', ')}`
+      });
+    }
+    return match.id;
+  }
+
+  /** Status for freshly added executions: IDLE, else the first zero-weight status. */
+  getIdleStatusId(): number {
+    const idle = findStatusByName(this.executionStatuses, 'IDLE') ||
+      this.executionStatuses.find(s => s.weight === 0) ||
+      this.executionStatuses[0];
+    return idle.id;
+  }
+
+  /** Status for new test cases: CONFIRMED, else the first confirmed status. */
+  getNewCaseStatusId(): number {
+    const confirmed = this.caseStatuses.find(s => s.name.toUpperCase() === 'CONFIRMED') ||
+      this.caseStatuses.find(s => s.is_confirmed) ||
+      this.caseStatuses[0];
+    return confirmed.id;
   }
 
   getPriorityId(priority: string): number {
-    return this.priorityMap[priority.toUpperCase() as keyof typeof this.priorityMap] || 3;
+    const wanted = priority.trim().toUpperCase();
+    const match = this.priorities.find(p => p.value.toUpperCase() === wanted);
+    if (!match) {
+      throw new KiwiValidationError(`Unknown priority: ${priority}`, {
+        hint: `Use one of: ${this.getPriorityNames().join(', ')}`
+      });
+    }
+    return match.id;
+  }
+
+  getCaseStatusId(caseStatus: string): number {
+    const wanted = caseStatus.trim().toUpperCase();
+    const match = this.caseStatuses.find(s => s.name.toUpperCase() === wanted);
+    if (!match) {
+      throw new KiwiValidationError(`Unknown case status: ${caseStatus}`, {
+        hint: `Use one of: ${this.getCaseStatusNames().join(', ')}`
+      });
+    }
+    return match.id;
+  }
+
+  getPlanTypeId(planType: string): number {
+    const wanted = planType.trim().toUpperCase();
+    const match = this.planTypes.find(t => t.name.toUpperCase() === wanted);
+    if (!match) {
+      throw new KiwiValidationError(`Unknown plan type: ${planType}`, {
+        hint: `Use one of: ${this.getPlanTypeNames().join(', ')}`
+      });
+    }
+    return match.id;
   }
 
   getStatusName(statusId: number): string {
-    const entry = Object.entries(this.statusMap).find(([, id]) => id === statusId);
-    return entry ? entry[0] : 'IDLE';
+    return this.executionStatuses.find(s => s.id === statusId)?.name || `UNKNOWN_${statusId}`;
+  }
+
+  getStatusOutcome(statusId: number): StatusOutcome {
+    const status = this.executionStatuses.find(s => s.id === statusId);
+    return status ? statusOutcome(status) : 'neutral';
   }
 
   getPriorityName(priorityId: number): string {
-    const entry = Object.entries(this.priorityMap).find(([, id]) => id === priorityId);
-    return entry ? entry[0] : 'P3';
+    return this.priorities.find(p => p.id === priorityId)?.value || `UNKNOWN_${priorityId}`;
   }
+
+  getCaseStatusName(caseStatusId: number): string {
+    return this.caseStatuses.find(s => s.id === caseStatusId)?.name || `UNKNOWN_${caseStatusId}`;
+  }
+
+  getPlanTypeName(planTypeId: number): string {
+    return this.planTypes.find(t => t.id === planTypeId)?.name || `UNKNOWN_${planTypeId}`;
+  }
+}
+
+// Client-side check of the search filters a transport left unapplied.
+// Plans can't be checked here: a case record doesn't list its plans.
+function matchesCaseSearch(testCase: KiwiTestCase, filters: TestCaseSearch): boolean {
+  const { summary, tags, all_tags: allTags, components, priority, case_status, is_automated, author } = filters;
+  const caseTags = testCase.tag || [];
+  return (summary === undefined || testCase.summary.toLowerCase().includes(summary.toLowerCase())) &&
+    (tags === undefined || tags.some(tag => caseTags.includes(tag))) &&
+    (allTags === undefined || allTags.every(tag => caseTags.includes(tag))) &&
+    (components === undefined || components.some(component => (testCase.component || []).includes(component))) &&
+    (priority === undefined || testCase.priority === priority) &&
+    (case_status === undefined || testCase.case_status === case_status) &&
+    (is_automated === undefined || testCase.is_automated === is_automated) &&
+    (author === undefined || testCase.author === author);
 }
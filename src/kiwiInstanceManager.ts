@@ -0,0 +1,98 @@
+// Kiwi TCMS Instance Manager
+// Owns one KiwiApiClient per configured Kiwi TCMS instance
+
+import { KiwiApiClient } from './kiwiApiClient.js';
+import { KiwiServices, createServices } from './services/index.js';
+import { Logger } from './utils/logger.js';
+import { KiwiValidationError } from './utils/errors.js';
+import { defaultInstanceName } from './utils/instances.js';
+import { KiwiInstanceConfig, KiwiInstanceStatus } from './types/index.js';
+
+export class KiwiInstanceManager {
+  private logger: Logger;
+  private clients = new Map<string, KiwiApiClient>();
+  private services = new Map<string, KiwiServices>();
+  readonly defaultInstance: string;
+
+  constructor(configs: KiwiInstanceConfig[]) {
+    this.logger = new Logger('KiwiInstanceManager');
+    for (const config of configs) {
+      this.clients.set(config.name, new KiwiApiClient(config));
+    }
+    this.defaultInstance = defaultInstanceName(configs);
+  }
+
+  names(): string[] {
+    return [...this.clients.keys()];
+  }
+
+  all(): KiwiApiClient[] {
+    return [...this.clients.values()];
+  }
+
+  /** Client for the named instance, or the default one when no name is given. */
+  get(name?: string): KiwiApiClient {
+    const client = this.clients.get(name || this.defaultInstance);
+    if (!client) {
+      throw new KiwiValidationError(`Unknown Kiwi TCMS instance: ${name}`, {
+        hint: `Use one of: ${this.names().join(', ')} (see kiwi.list_instances)`
+      });
+    }
+    return client;
+  }
+
+  /** Services bound to the named (or default) instance, built on first use. */
+  servicesFor(name?: string): KiwiServices {
+    const client = this.get(name);
+    let services = this.services.get(client.instance.name);
+    if (!services) {
+      services = createServices(client);
+      this.services.set(client.instance.name, services);
+    }
+    return services;
+  }
+
+  /**
+   * Connect every instance and load its reference data. The default
+   * instance must be reachable; others only log a warning so one outage
+   * doesn't take the whole server down.
+   */
+  async connectAll(): Promise<void> {
+    await Promise.all([...this.clients.entries()].map(async ([name, client]) => {
+      try {
+        await client.testConnection();
+        await client.loadReferenceData();
+      } catch (error) {
+        if (name === this.defaultInstance) {
+          throw error;
+        }
+        this.logger.warn(`Kiwi TCMS instance ${name} is unreachable; its tools will fail until it recovers`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }));
+  }
+
+  /** Probe each instance and report whether it answers. */
+  async listInstances(): Promise<KiwiInstanceStatus[]> {
+    return Promise.all([...this.clients.entries()].map(async ([name, client]) => {
+      const status: KiwiInstanceStatus = {
+        name,
+        base_url: client.instance.baseUrl,
+        transport: client.instance.transport,
+        default: name === this.defaultInstance,
+        reachable: false
+      };
+
+      const started = Date.now();
+      try {
+        await client.testConnection();
+        status.reachable = true;
+        status.latency_ms = Date.now() - started;
+      } catch (error) {
+        status.error = error instanceof Error ? error.message : String(error);
+      }
+      return status;
+    }));
+  }
+}
@@ -0,0 +1,314 @@
+// Prompt Registry for Kiwi TCMS MCP Server
+// Workflow prompts pre-filled with live Kiwi TCMS data
+
+import { CompleteResult, GetPromptResult, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import { KiwiApiClient } from './kiwiApiClient.js';
+import { KiwiInstanceManager } from './kiwiInstanceManager.js';
+import { CaseDetails, KiwiProduct, RunDetails, ToolResult } from './types/index.js';
+import { Logger } from './utils/logger.js';
+import { KiwiNotFoundError, KiwiValidationError } from './utils/errors.js';
+import { findStatusByName, statusOutcome } from './utils/statuses.js';
+
+// Keep prompts within a sensible context budget
+const MAX_CASE_DETAILS = 20;
+const MAX_RUNS = 25;
+const MAX_COMPLETIONS = 100;
+
+type PromptArgs = Record<string, string | undefined>;
+
+const INSTANCE_ARGUMENT = {
+  name: 'instance',
+  description: 'Kiwi TCMS instance to read from (default: the configured default instance)',
+  required: false
+};
+
+export class KiwiPromptRegistry {
+  private logger: Logger;
+
+  constructor(private instances: KiwiInstanceManager) {
+    this.logger = new Logger('KiwiPromptRegistry');
+  }
+
+  getPromptDefinitions(): Prompt[] {
+    return [
+      {
+        name: 'triage_run_failures',
+        description: 'Triage the failed and blocked executions of a test run',
+        arguments: [
+          { name: 'run_id', description: 'Test run ID', required: true },
+          INSTANCE_ARGUMENT
+        ]
+      },
+      {
+        name: 'write_cases_for_requirement',
+        description: 'Draft test cases covering a requirement, avoiding duplicates of existing cases',
+        arguments: [
+          { name: 'product', description: 'Product name or ID', required: true },
+          { name: 'requirement', description: 'Requirement text or identifier to cover', required: true },
+          { name: 'plan', description: 'Test plan (name) under the product to add the cases to', required: false },
+          INSTANCE_ARGUMENT
+        ]
+      },
+      {
+        name: 'release_signoff',
+        description: 'Prepare a release sign-off from every test run against a build',
+        arguments: [
+          { name: 'build', description: 'Build name', required: true },
+          INSTANCE_ARGUMENT
+        ]
+      },
+      {
+        name: 'review_case',
+        description: 'Review a test case for clarity, completeness and testability',
+        arguments: [
+          { name: 'case_id', description: 'Test case ID', required: true },
+          INSTANCE_ARGUMENT
+        ]
+      }
+    ];
+  }
+
+  async getPrompt(name: string, args: PromptArgs = {}): Promise<GetPromptResult> {
+    this.logger.info(`Building prompt: ${name}`, args);
+
+    const definition = this.getPromptDefinitions().find(p => p.name === name);
+    if (!definition) {
+      throw new KiwiValidationError(`Unknown prompt: ${name}`, {
+        hint: 'Call prompts/list for the available prompts.'
+      });
+    }
+    for (const argument of definition.arguments || []) {
+      if (argument.required && !args[argument.name]?.trim()) {
+        throw new KiwiValidationError(`Prompt ${name} requires the ${argument.name} argument`, {
+          hint: 'Pass every required prompt argument (see prompts/list).'
+        });
+      }
+    }
+
+    const apiClient = this.instances.get(args.instance);
+    switch (name) {
+      case 'triage_run_failures':
+        return this.triageRunFailures(apiClient, args);
+      case 'write_cases_for_requirement':
+        return this.writeCasesForRequirement(apiClient, args);
+      case 'release_signoff':
+        return this.releaseSignoff(apiClient, args);
+      default:
+        return this.reviewCase(apiClient, args);
+    }
+  }
+
+  /**
+   * Suggest values for a prompt argument. Clients that send the other
+   * arguments as context get plan names scoped to the chosen product.
+   */
+  async complete(promptName: string, argument: string, value: string, context: PromptArgs = {}): Promise<CompleteResult['completion']> {
+    let candidates: string[] = [];
+
+    try {
+      if (argument === 'instance') {
+        candidates = this.instances.names();
+      } else {
+        const apiClient = this.instances.get(context.instance);
+        switch (argument) {
+          case 'product':
+            candidates = (await apiClient.getAllProducts()).map(p => p.name);
+            break;
+          case 'plan': {
+            const product = context.product ? await this.findProduct(apiClient, context.product) : undefined;
+            candidates = (await apiClient.getAllTestPlans(product ? { product: product.id } : {})).map(p => p.name);
+            break;
+          }
+          case 'build':
+            candidates = (await apiClient.getAllBuilds()).map(b => b.name);
+            break;
+          case 'run_id':
+            candidates = (await apiClient.getAllTestRuns()).map(r => String(r.id));
+            break;
+        }
+      }
+    } catch (error) {
+      // Completion is best-effort; an unreachable instance just yields nothing
+      this.logger.warn(`Completion failed for ${promptName}.${argument}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    const needle = value.toLowerCase();
+    const matches = [...new Set(candidates)].filter(c => c.toLowerCase().includes(needle));
+    return {
+      values: matches.slice(0, MAX_COMPLETIONS),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETIONS
+    };
+  }
+
+  private async triageRunFailures(apiClient: KiwiApiClient, args: PromptArgs): Promise<GetPromptResult> {
+    const runId = this.parseId('run_id', args.run_id!);
+    const { testExecutionService, testManagementService } = this.instances.servicesFor(apiClient.instance.name);
+
+    const run = this.parseToolJson<RunDetails>(await testExecutionService.getRun({ run_id: runId }));
+    const statuses = apiClient.getExecutionStatuses();
+    const failing = run.executions.filter(exec => {
+      const status = findStatusByName(statuses, exec.status);
+      return status !== undefined && statusOutcome(status) === 'fail';
+    });
+
+    const caseDetails: CaseDetails[] = [];
+    for (const exec of failing.slice(0, MAX_CASE_DETAILS)) {
+      caseDetails.push(this.parseToolJson<CaseDetails>(await testManagementService.getCase({ case_id: exec.case_id })));
+    }
+
+    const text = failing.length === 0
+      ? `Test run ${runId} ("${run.summary}") on build ${run.build} has no failed or blocked executions. ` +
+        'Summarise its state and point out any executions still pending.\n\n' +
+        this.jsonBlock('Run', run)
+      : `Triage the ${failing.length} failing execution(s) of test run ${runId} ("${run.summary}", plan ` +
+        `"${run.plan_name}", build ${run.build}).\n\n` +
+        'For each failure:\n' +
+        '1. Classify it as a product bug, a test defect, an environment problem or flakiness, citing the evidence.\n' +
+        '2. Group failures that look like the same root cause.\n' +
+        '3. Recommend the next action: file a bug (kiwi.link_jira), fix the case (kiwi.update_case) or re-run (kiwi.execute_case).\n' +
+        'Finish with a prioritised list of what to look at first.\n\n' +
+        this.jsonBlock('Failing executions', failing) +
+        this.jsonBlock(
+          failing.length > MAX_CASE_DETAILS ? `Case details (first ${MAX_CASE_DETAILS})` : 'Case details',
+          caseDetails
+        );
+
+    return this.userPrompt(`Triage failures in run ${runId}`, text);
+  }
+
+  private async writeCasesForRequirement(apiClient: KiwiApiClient, args: PromptArgs): Promise<GetPromptResult> {
+    const product = await this.findProduct(apiClient, args.product!);
+    const plans = await apiClient.getAllTestPlans({ product: product.id });
+
+    let plan;
+    if (args.plan) {
+      plan = plans.find(p => p.name === args.plan) ||
+        plans.find(p => p.name.toLowerCase() === args.plan!.toLowerCase());
+      if (!plan) {
+        throw new KiwiNotFoundError(`Test plan ${args.plan} not found in product ${product.name}`, {
+          hint: `Plans in ${product.name}: ${plans.map(p => p.name).join(', ') || 'none'}`
+        });
+      }
+    }
+
+    const existing = plan ? await apiClient.getAllTestCases({ plan: plan.id }) : [];
+
+    const text =
+      `Write test cases for the following requirement in product "${product.name}" (ID ${product.id}):\n\n` +
+      `> ${args.requirement!.split('\n').join('\n> ')}\n\n` +
+      'Cover the main success path, boundary values, invalid input and error handling. Give each case a ' +
+      'concise summary, preconditions, numbered steps with an expected result per step, a priority ' +
+      `(${apiClient.getPriorityNames().join(', ')}) and tags.\n` +
+      (plan
+        ? `Skip anything already covered by the existing cases of plan "${plan.name}" (ID ${plan.id}) listed below. `
+        : `Available plans: ${plans.map(p => `"${p.name}" (ID ${p.id})`).join(', ') || 'none'}. `) +
+      `Once the cases are agreed, create them with kiwi.create_case (product_id ${product.id}` +
+      (plan ? `, plan_id ${plan.id}` : '') + ').\n\n' +
+      (plan ? this.jsonBlock('Existing cases', existing.map(c => ({ id: c.id, summary: c.summary }))) : '');
+
+    return this.userPrompt(`Write test cases for a requirement in ${product.name}`, text);
+  }
+
+  private async releaseSignoff(apiClient: KiwiApiClient, args: PromptArgs): Promise<GetPromptResult> {
+    const buildName = args.build!;
+    const builds = (await apiClient.getAllBuilds()).filter(b => b.name === buildName);
+    if (builds.length === 0) {
+      throw new KiwiNotFoundError(`Build ${buildName} not found`, {
+        hint: 'Use prompt argument completion to pick an existing build name.'
+      });
+    }
+
+    const buildIds = new Set(builds.map(b => b.id));
+    const runs = (await apiClient.getAllTestRuns()).filter(r => buildIds.has(r.build));
+    const { testExecutionService } = this.instances.servicesFor(apiClient.instance.name);
+
+    const reports = [];
+    for (const run of runs.slice(0, MAX_RUNS)) {
+      reports.push({
+        run_id: run.id,
+        summary: run.summary,
+        plan_id: run.plan,
+        finished: Boolean(run.stop_date),
+        report: await testExecutionService.renderRunReport(run.id, 'json')
+      });
+    }
+
+    const text = runs.length === 0
+      ? `No test runs exist for build ${buildName}. Explain that a sign-off isn't possible yet and suggest ` +
+        'which plans should be run (kiwi.create_run) before release.'
+      : `Prepare a release sign-off for build ${buildName} from the ${runs.length} test run(s) below.\n\n` +
+        'Include:\n' +
+        '1. An overall recommendation: GO, GO with known issues, or NO-GO, with the reason.\n' +
+        '2. Pass rate overall and per run; runs not yet finished or with pending executions.\n' +
+        '3. Outstanding failures and blockers that affect the release.\n' +
+        '4. Risks and gaps in coverage.\n\n' +
+        this.jsonBlock(runs.length > MAX_RUNS ? `Run reports (first ${MAX_RUNS})` : 'Run reports', reports);
+
+    return this.userPrompt(`Release sign-off for build ${buildName}`, text);
+  }
+
+  private async reviewCase(apiClient: KiwiApiClient, args: PromptArgs): Promise<GetPromptResult> {
+    const caseId = this.parseId('case_id', args.case_id!);
+    const { testManagementService } = this.instances.servicesFor(apiClient.instance.name);
+    const testCase = this.parseToolJson<CaseDetails>(await testManagementService.getCase({ case_id: caseId }));
+
+    const text =
+      `Review test case ${caseId} ("${testCase.summary}") for quality.\n\n` +
+      'Check that:\n' +
+      '- the summary states what is verified;\n' +
+      '- preconditions and test data are explicit;\n' +
+      '- every step is a single action with an observable expected result;\n' +
+      '- negative and boundary conditions are covered or deliberately out of scope;\n' +
+      '- priority and automation status are plausible.\n' +
+      'List concrete findings, then propose improved fields that could be applied with kiwi.update_case.\n\n' +
+      this.jsonBlock('Test case', testCase);
+
+    return this.userPrompt(`Review case ${caseId}`, text);
+  }
+
+  private async findProduct(apiClient: KiwiApiClient, nameOrId: string): Promise<KiwiProduct> {
+    if (/^\d+$/.test(nameOrId.trim())) {
+      return apiClient.getProduct(parseInt(nameOrId, 10));
+    }
+
+    const products = await apiClient.getAllProducts({ name: nameOrId });
+    const product = products.find(p => p.name === nameOrId) ||
+      products.find(p => p.name.toLowerCase() === nameOrId.toLowerCase());
+    if (!product) {
+      throw new KiwiNotFoundError(`Product ${nameOrId} not found`, {
+        hint: 'Use prompt argument completion or kiwi.list_products to find the product name.'
+      });
+    }
+    return product;
+  }
+
+  private parseId(name: string, value: string): number {
+    if (!/^[1-9][0-9]*$/.test(value.trim())) {
+      throw new KiwiValidationError(`Invalid ${name}: must be a positive integer`);
+    }
+    return parseInt(value, 10);
+  }
+
+  // Services render their results as JSON tool output
+  private parseToolJson<T>(result: ToolResult): T {
+    const [content] = result.content;
+    return content?.type === 'text' ? JSON.parse(content.text) : {} as T;
+  }
+
+  private jsonBlock(title: string, data: unknown): string {
+    return `${title}:\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\`\n\n`;
+  }
+
+  private userPrompt(description: string, text: string): GetPromptResult {
+    return {
+      description,
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text: text.trimEnd() }
+      }]
+    };
+  }
+}
@@ -0,0 +1,156 @@
+// Resource Registry for Kiwi TCMS MCP Server
+// Exposes cases, plans, runs and run reports as kiwi:// resources
+
+import { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { KiwiInstanceManager } from './kiwiInstanceManager.js';
+import { ToolResult } from './types/index.js';
+import { Logger } from './utils/logger.js';
+import { KiwiValidationError } from './utils/errors.js';
+
+// kiwi://case/12, kiwi://run/7/report.junit, optionally ?instance=staging
+const RESOURCE_URI = /^kiwi:\/\/(case|plan|run)\/(\d+)(\/report\.junit)?(?:\?instance=([A-Za-z][\w-]*))?$/;
+
+// Listing every case would be unbounded; list the newest plans and runs
+// only and leave the rest to the templates
+const LIST_LIMIT = 50;
+
+interface ParsedResourceUri {
+  kind: 'case' | 'plan' | 'run' | 'report';
+  id: number;
+  instance?: string;
+}
+
+export class KiwiResourceRegistry {
+  private logger: Logger;
+
+  constructor(private instances: KiwiInstanceManager) {
+    this.logger = new Logger('KiwiResourceRegistry');
+  }
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: 'kiwi://case/{id}',
+        name: 'Test case',
+        description: 'A test case with its steps, priority and metadata. Append ?instance=<name> for a non-default instance.',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'kiwi://plan/{id}',
+        name: 'Test plan',
+        description: 'A test plan and the cases it contains. Append ?instance=<name> for a non-default instance.',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'kiwi://run/{id}',
+        name: 'Test run',
+        description: 'A test run with its build, plan, environment and every execution. Append ?instance=<name> for a non-default instance.',
+        mimeType: 'application/json'
+      },
+      {
+        uriTemplate: 'kiwi://run/{id}/report.junit',
+        name: 'Test run JUnit report',
+        description: 'JUnit XML summary of a test run. Append ?instance=<name> for a non-default instance.',
+        mimeType: 'application/xml'
+      }
+    ];
+  }
+
+  /** Newest plans and runs of every instance; unreachable instances are skipped. */
+  async listResources(): Promise<Resource[]> {
+    const lists = await Promise.all(this.instances.names().map(async name => {
+      const apiClient = this.instances.get(name);
+      const suffix = name === this.instances.defaultInstance ? '' : `?instance=${name}`;
+      const label = suffix ? ` [${name}]` : '';
+
+      try {
+        const [plans, runs] = await Promise.all([
+          apiClient.getTestPlans({ limit: LIST_LIMIT, newest_first: true }),
+          apiClient.getTestRuns({ limit: LIST_LIMIT, newest_first: true })
+        ]);
+
+        const resources: Resource[] = plans.results.map(plan => ({
+          uri: `kiwi://plan/${plan.id}${suffix}`,
+          name: `Plan ${plan.id}: ${plan.name}${label}`,
+          mimeType: 'application/json'
+        }));
+        for (const run of runs.results) {
+          resources.push(
+            {
+              uri: `kiwi://run/${run.id}${suffix}`,
+              name: `Run ${run.id}: ${run.summary}${label}`,
+              mimeType: 'application/json'
+            },
+            {
+              uri: `kiwi://run/${run.id}/report.junit${suffix}`,
+              name: `Run ${run.id} JUnit report${label}`,
+              mimeType: 'application/xml'
+            }
+          );
+        }
+        return resources;
+      } catch (error) {
+        this.logger.warn(`Skipping resources of instance ${name}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        return [];
+      }
+    }));
+
+    return lists.flat();
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    this.logger.info(`Reading resource: ${uri}`);
+
+    const { kind, id, instance } = this.parseUri(uri);
+    const {
+      testManagementService,
+      testExecutionService
+    } = this.instances.servicesFor(instance);
+
+    switch (kind) {
+      case 'case':
+        return this.jsonContents(uri, await testManagementService.getCase({ case_id: id }));
+      case 'plan':
+        return this.jsonContents(uri, await testManagementService.getPlan({ plan_id: id }));
+      case 'run':
+        return this.jsonContents(uri, await testExecutionService.getRun({ run_id: id }));
+      case 'report':
+        return {
+          contents: [{
+            uri,
+            mimeType: 'application/xml',
+            text: await testExecutionService.renderRunReport(id, 'junit') as string
+          }]
+        };
+    }
+  }
+
+  private parseUri(uri: string): ParsedResourceUri {
+    const match = RESOURCE_URI.exec(uri);
+    if (!match || (match[3] && match[1] !== 'run')) {
+      throw new KiwiValidationError(`Unknown resource URI: ${uri}`, {
+        hint: 'Use kiwi://case/{id}, kiwi://plan/{id}, kiwi://run/{id} or kiwi://run/{id}/report.junit (see resources/templates/list).'
+      });
+    }
+
+    return {
+      kind: match[3] ? 'report' : match[1] as ParsedResourceUri['kind'],
+      id: parseInt(match[2], 10),
+      instance: match[4]
+    };
+  }
+
+  // The services already render these documents as JSON tool output
+  private jsonContents(uri: string, result: ToolResult): ReadResourceResult {
+    const [content] = result.content;
+    return {
+      contents: [{
+        uri,
+        mimeType: 'application/json',
+        text: content?.type === 'text' ? content.text : ''
+      }]
+    };
+  }
+}
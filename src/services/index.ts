@@ -3,3 +3,27 @@
 export { TestManagementService } from './testManagementService.js';
 export { TestExecutionService } from './testExecutionService.js';
 export { TestAuthoringService } from './testAuthoringService.js';
+export { ProductManagementService } from './productManagementService.js';
+
+import { KiwiApiClient } from '../kiwiApiClient.js';
+import { TestManagementService } from './testManagementService.js';
+import { TestExecutionService } from './testExecutionService.js';
+import { TestAuthoringService } from './testAuthoringService.js';
+import { ProductManagementService } from './productManagementService.js';
+
+/** The services bound to one instance's API client. */
+export interface KiwiServices {
+  testManagementService: TestManagementService;
+  testExecutionService: TestExecutionService;
+  testAuthoringService: TestAuthoringService;
+  productManagementService: ProductManagementService;
+}
+
+export function createServices(apiClient: KiwiApiClient): KiwiServices {
+  return {
+    testManagementService: new TestManagementService(apiClient),
+    testExecutionService: new TestExecutionService(apiClient),
+    testAuthoringService: new TestAuthoringService(apiClient),
+    productManagementService: new ProductManagementService(apiClient)
+  };
+}
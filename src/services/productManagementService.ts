@@ -0,0 +1,230 @@
+// Product Management Service for Kiwi TCMS MCP Server
+
+import { KiwiApiClient } from '../kiwiApiClient.js';
+import { Logger } from '../utils/logger.js';
+import { KiwiConflictError } from '../utils/errors.js';
+import { validateLimitAndOffset } from '../utils/validation.js';
+import { encodeCursor, decodeCursor, paginateResults } from '../utils/pagination.js';
+import { dryRunResult, fieldChanges } from '../utils/dryRun.js';
+import {
+  ToolResult,
+  ListVersionsInput,
+  CreateVersionInput,
+  ListBuildsInput,
+  CreateBuildInput,
+  UpdateBuildInput,
+  KiwiBuild,
+  KiwiVersion,
+  CursorPaginatedResponse
+} from '../types/index.js';
+
+export class ProductManagementService {
+  private logger: Logger;
+
+  constructor(private apiClient: KiwiApiClient) {
+    this.logger = new Logger('ProductManagementService');
+  }
+
+  async listVersions(input: ListVersionsInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Listing versions', input);
+
+      const filters = { product_id: input.product_id };
+      const { limit, offset } = validateLimitAndOffset(input.limit, decodeCursor('versions', input.cursor, filters));
+
+      const response = await this.apiClient.getVersions({ product: input.product_id, limit, offset });
+
+      const items = response.results.map(version => ({
+        id: version.id,
+        value: version.value,
+        product_id: version.product
+      }));
+
+      const result: CursorPaginatedResponse<any> = {
+        items,
+        next_cursor: response.next ? encodeCursor('versions', offset + limit, filters) : undefined
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Error listing versions:', error);
+      throw error;
+    }
+  }
+
+  async createVersion(input: CreateVersionInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Creating version', input);
+
+      const product = await this.apiClient.getProduct(input.product_id);
+      const versionData = { value: input.value.trim(), product: product.id };
+
+      const [existing] = (await this.apiClient.getVersions(versionData)).results;
+      if (existing) {
+        throw new KiwiConflictError(`Version ${versionData.value} already exists for product ${product.id}`, {
+          hint: `Use the existing version (ID ${existing.id}).`
+        });
+      }
+
+      if (input.dry_run) {
+        return dryRunResult([{ action: 'create', entity: 'version', data: versionData }], {
+          product_id: product.id
+        });
+      }
+
+      const version = await this.apiClient.createVersion(versionData);
+
+      const result = {
+        version_id: version.id,
+        value: version.value,
+        product_id: version.product
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Error creating version:', error);
+      throw error;
+    }
+  }
+
+  async listBuilds(input: ListBuildsInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Listing builds', input);
+
+      const filters = { product_id: input.product_id, version: input.version, is_active: input.is_active };
+      const { limit, offset } = validateLimitAndOffset(input.limit, decodeCursor('builds', input.cursor, filters));
+
+      // Builds hang off versions, so a product's builds are gathered version by version
+      const versions = input.version
+        ? [await this.apiClient.findVersion(input.product_id, input.version)]
+        : await this.apiClient.getAllVersions({ product: input.product_id });
+      const builds: Array<{ build: KiwiBuild; version: KiwiVersion }> = [];
+      for (const version of versions) {
+        const versionBuilds = await this.apiClient.getAllBuilds({
+          version: version.id,
+          is_active: input.is_active ?? undefined
+        });
+        builds.push(...versionBuilds.map(build => ({ build, version })));
+      }
+
+      const page = paginateResults(builds, limit, offset);
+      const items = page.results.map(({ build, version }) => ({
+        id: build.id,
+        name: build.name,
+        version: version.value,
+        version_id: version.id,
+        is_active: build.is_active ?? true
+      }));
+
+      const result: CursorPaginatedResponse<any> = {
+        items,
+        next_cursor: page.next ? encodeCursor('builds', offset + limit, filters) : undefined
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Error listing builds:', error);
+      throw error;
+    }
+  }
+
+  async createBuild(input: CreateBuildInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Creating build', input);
+
+      const version = await this.apiClient.findVersion(input.product_id, input.version);
+      const buildData = { name: input.name.trim(), version: version.id };
+
+      const [existing] = (await this.apiClient.getBuilds(buildData)).results;
+      if (existing) {
+        throw new KiwiConflictError(`Build ${buildData.name} already exists for version ${version.value}`, {
+          hint: `Use the existing build (ID ${existing.id}).`
+        });
+      }
+
+      if (input.dry_run) {
+        return dryRunResult([{ action: 'create', entity: 'build', data: buildData }], {
+          product_id: input.product_id,
+          version: version.value
+        });
+      }
+
+      const build = await this.apiClient.createBuild(buildData);
+
+      const result = {
+        build_id: build.id,
+        name: build.name,
+        version: version.value,
+        version_id: version.id,
+        is_active: build.is_active ?? true
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Error creating build:', error);
+      throw error;
+    }
+  }
+
+  async updateBuild(input: UpdateBuildInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Updating build', input);
+
+      const existingBuild = await this.apiClient.getBuild(input.build_id);
+
+      const updateData: Partial<KiwiBuild> = {};
+      if (input.patch.name !== undefined) updateData.name = input.patch.name.trim();
+      if (input.patch.is_active !== undefined) updateData.is_active = input.patch.is_active;
+
+      if (input.dry_run) {
+        return dryRunResult([{
+          action: 'update',
+          entity: 'build',
+          id: input.build_id,
+          data: updateData,
+          changes: fieldChanges(existingBuild, updateData)
+        }], { build_id: input.build_id });
+      }
+
+      const build = await this.apiClient.updateBuild(input.build_id, updateData);
+
+      const result = {
+        build_id: build.id,
+        name: build.name,
+        version_id: build.version,
+        is_active: build.is_active ?? true,
+        updated_fields: Object.keys(updateData)
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Error updating build:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { KiwiApiClient } from '../kiwiApiClient.js';
+import { TestAuthoringService } from './testAuthoringService.js';
+import { ToolResult } from '../types/index.js';
+import { loadServerConfig } from '../utils/config.js';
+import { loadInstanceConfigs } from '../utils/instances.js';
+import { Logger } from '../utils/logger.js';
+import { KiwiValidationError } from '../utils/errors.js';
+
+// A client over a fresh copy of the built-in mock data
+async function mockClient(): Promise<KiwiApiClient> {
+  const [instance] = loadInstanceConfigs();
+  const client = new KiwiApiClient(instance);
+  await client.loadReferenceData();
+  return client;
+}
+
+function parse(result: ToolResult): any {
+  const [content] = result.content;
+  return content.type === 'text' ? JSON.parse(content.text) : undefined;
+}
+
+describe('TestAuthoringService.clonePlan', () => {
+  let client: KiwiApiClient;
+  let service: TestAuthoringService;
+  const planCaseIds = async (planId: number) =>
+    (await client.getAllTestCases({ plan: planId })).map(testCase => testCase.id);
+
+  before(() => {
+    Object.assign(process.env, { MOCK_MODE: 'true', KIWI_BASE_URL: 'http://kiwi.test', KIWI_TOKEN: 'test' });
+    loadServerConfig();
+    Logger.configure({ level: 'SILENT', format: 'text' });
+  });
+
+  beforeEach(async () => {
+    client = await mockClient();
+    service = new TestAuthoringService(client);
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  it('links the source plan\'s cases into the copy by default', async () => {
+    const result = parse(await service.clonePlan({ plan_id: 1 }));
+    assert.equal(result.name, 'Copy of Login & Authentication Tests');
+    assert.equal(result.cases, 'link');
+    assert.deepEqual(result.linked, [1, 2, 3]);
+    assert.deepEqual(result.copied, []);
+    assert.deepEqual(await planCaseIds(result.plan_id), [1, 2, 3]);
+  });
+
+  it('copies cases as new ones owned by the current user', async () => {
+    const result = parse(await service.clonePlan({ plan_id: 1, name: 'Login regression', cases: 'copy' }));
+    assert.deepEqual(result.copied.map((copy: { source_case_id: number }) => copy.source_case_id), [1, 2, 3]);
+    assert.deepEqual(result.linked, []);
+
+    const copies = await client.getAllTestCases({ plan: result.plan_id });
+    assert.deepEqual(copies.map(testCase => testCase.id), result.copied.map((copy: { case_id: number }) => copy.case_id));
+    assert.ok(copies.every(testCase => testCase.id > 5 && testCase.author === 1));
+    assert.deepEqual(await planCaseIds(1), [1, 2, 3]);
+  });
+
+  it('creates an empty plan when cases is none', async () => {
+    const result = parse(await service.clonePlan({ plan_id: 1, cases: 'none' }));
+    assert.deepEqual(await planCaseIds(result.plan_id), []);
+  });
+
+  it('moves the copy to another version and under the source plan', async () => {
+    const result = parse(await service.clonePlan({ plan_id: 1, version: '2.0', set_parent: true }));
+    assert.equal(result.product_version, 3);
+    assert.equal(result.parent_id, 1);
+  });
+
+  it('rejects a version of another product', async () => {
+    await assert.rejects(service.clonePlan({ plan_id: 3, version: '2.0' }), KiwiValidationError);
+  });
+
+  it('reports cases it could not link without undoing the clone', async () => {
+    const addCaseToPlan = client.addCaseToPlan.bind(client);
+    mock.method(client, 'addCaseToPlan', async (planId: number, caseId: number) => {
+      if (caseId === 2) throw new Error('Case 2 is locked');
+      return addCaseToPlan(planId, caseId);
+    });
+
+    const result = parse(await service.clonePlan({ plan_id: 1 }));
+    assert.deepEqual(result.linked, [1, 3]);
+    assert.deepEqual(result.failed, [{ case_id: 2, error: 'Case 2 is locked' }]);
+    assert.deepEqual(await planCaseIds(result.plan_id), [1, 3]);
+  });
+
+  it('plans the writes without making them on a dry run', async () => {
+    const result = parse(await service.clonePlan({ plan_id: 1, cases: 'copy', dry_run: true }));
+    assert.equal(result.dry_run, true);
+    assert.deepEqual(result.operation_counts, { create_plan: 1, create_case: 3, link_case: 3 });
+    assert.equal((await client.getTestPlans({})).count, 3);
+  });
+});
@@ -2,11 +2,20 @@
 
 import { KiwiApiClient } from '../kiwiApiClient.js';
 import { Logger } from '../utils/logger.js';
-import { validateId, validatePriority, validateTestSteps } from '../utils/validation.js';
+import { KiwiValidationError } from '../utils/errors.js';
+import { validatePriority } from '../utils/validation.js';
+import { dryRunResult, fieldChanges, newObjectRef } from '../utils/dryRun.js';
+import { idempotencyKey } from '../utils/retry.js';
 import {
   ToolResult,
   CreateCaseInput,
-  UpdateCaseInput
+  UpdateCaseInput,
+  CreatePlanInput,
+  UpdatePlanInput,
+  ClonePlanInput,
+  KiwiTestCase,
+  KiwiTestPlan,
+  PlannedOperation
 } from '../types/index.js';
 
 export class TestAuthoringService {
@@ -20,21 +29,19 @@ export class TestAuthoringService {
     try {
       this.logger.info('Creating test case', input);
       
-      // Validate inputs
-      if (!validateId(input.product_id)) {
-        throw new Error('Invalid product_id: must be a positive integer');
+      // The registry validated the arguments against the tool schema; the
+      // priority names differ per instance
+      const validPriorities = this.apiClient.getPriorityNames();
+      if (!validatePriority(input.priority, validPriorities)) {
+        throw new KiwiValidationError(`Invalid priority: must be one of ${validPriorities.join(', ')}`);
       }
-      
-      if (!input.summary || input.summary.trim().length === 0) {
-        throw new Error('Summary is required and cannot be empty');
-      }
-      
-      if (!validateTestSteps(input.steps)) {
-        throw new Error('Invalid steps: must be a non-empty array with action and expected fields');
-      }
-      
-      if (!validatePriority(input.priority)) {
-        throw new Error('Invalid priority: must be P1, P2, P3, or P4');
+
+      // The case can only join a plan of its own product
+      const plan = input.plan_id ? await this.apiClient.getTestPlan(input.plan_id) : undefined;
+      if (plan && plan.product !== input.product_id) {
+        throw new KiwiValidationError(`Test plan ${plan.id} belongs to product ${plan.product}, not ${input.product_id}`, {
+          hint: 'Pass a plan of the case\'s product (see kiwi.list_plans).'
+        });
       }
 
       // Get current user for author field
@@ -60,7 +67,7 @@ export class TestAuthoringService {
         action,
         expected_result,
         notes: `Created via MCP at ${new Date().toISOString()}`,
-        case_status: 1, // Active
+        case_status: this.apiClient.getNewCaseStatusId(),
         category: categoryId,
         priority: this.apiClient.getPriorityId(input.priority),
         author: currentUser.id,
@@ -72,7 +79,21 @@ export class TestAuthoringService {
         requirement: ''
       };
 
+      if (input.dry_run) {
+        const operations: PlannedOperation[] = [{ action: 'create', entity: 'case', data: caseData }];
+        if (plan) {
+          operations.push({ action: 'link', entity: 'case', data: { plan: plan.id, case: newObjectRef('case') } });
+        }
+        return dryRunResult(operations, {
+          product_id: input.product_id,
+          author: currentUser.username
+        });
+      }
+
       const testCase = await this.apiClient.createTestCase(caseData);
+      if (plan) {
+        await this.apiClient.addCaseToPlan(plan.id, testCase.id);
+      }
       
       // Handle tags if specified
       if (input.tags && input.tags.length > 0) {
@@ -85,6 +106,7 @@ export class TestAuthoringService {
         summary: testCase.summary,
         priority: this.apiClient.getPriorityName(testCase.priority),
         product_id: input.product_id,
+        plan_id: plan?.id ?? null,
         author: currentUser.username,
         created_date: testCase.create_date,
         steps: input.steps,
@@ -99,13 +121,7 @@ export class TestAuthoringService {
       };
     } catch (error) {
       this.logger.error('Error creating test case:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error creating test case: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
     }
   }
 
@@ -113,14 +129,6 @@ export class TestAuthoringService {
     try {
       this.logger.info('Updating test case', input);
       
-      if (!validateId(input.case_id)) {
-        throw new Error('Invalid case_id: must be a positive integer');
-      }
-      
-      if (!input.patch || Object.keys(input.patch).length === 0) {
-        throw new Error('Patch object is required and cannot be empty');
-      }
-
       // Get existing test case
       const existingCase = await this.apiClient.getTestCase(input.case_id);
       
@@ -128,17 +136,10 @@ export class TestAuthoringService {
       const updateData: any = {};
       
       if (input.patch.summary) {
-        if (input.patch.summary.trim().length === 0) {
-          throw new Error('Summary cannot be empty');
-        }
         updateData.summary = input.patch.summary.trim();
       }
       
       if (input.patch.steps) {
-        if (!validateTestSteps(input.patch.steps)) {
-          throw new Error('Invalid steps: must be a non-empty array with action and expected fields');
-        }
-        
         const { action, expected_result } = this.formatTestSteps(input.patch.steps);
         updateData.action = action;
         updateData.expected_result = expected_result;
@@ -154,6 +155,21 @@ export class TestAuthoringService {
       // Add update metadata
       updateData.notes = (existingCase.notes || '') + `\nUpdated via MCP at ${new Date().toISOString()}`;
 
+      if (input.dry_run) {
+        return dryRunResult([{
+          action: 'update',
+          entity: 'case',
+          id: input.case_id,
+          data: updateData,
+          changes: fieldChanges(existingCase, updateData)
+        }], {
+          case_id: input.case_id,
+          steps: input.patch.steps
+            ? { from: this.parseTestSteps(existingCase.action, existingCase.expected_result), to: input.patch.steps }
+            : undefined
+        });
+      }
+
       const updatedCase = await this.apiClient.updateTestCase(input.case_id, updateData);
       
       // Handle tags if specified
@@ -179,13 +195,232 @@ export class TestAuthoringService {
       };
     } catch (error) {
       this.logger.error('Error updating test case:', error);
+      throw error;
+    }
+  }
+
+  async createPlan(input: CreatePlanInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Creating test plan', input);
+
+      const product = await this.apiClient.getProduct(input.product_id);
+      const version = await this.apiClient.findVersion(product.id, input.version);
+      if (input.parent_id) {
+        // Fails with not-found before anything is written
+        await this.apiClient.getTestPlan(input.parent_id);
+      }
+      const currentUser = await this.apiClient.getCurrentUser();
+
+      const planData = {
+        name: input.name.trim(),
+        text: input.text || '',
+        product: product.id,
+        product_version: version.id,
+        type: this.apiClient.getPlanTypeId(input.type),
+        parent: input.parent_id ?? null,
+        is_active: input.is_active ?? true,
+        author: currentUser.id
+      };
+
+      if (input.dry_run) {
+        return dryRunResult([{ action: 'create', entity: 'plan', data: planData }], {
+          product_id: product.id,
+          version: version.value,
+          author: currentUser.username
+        });
+      }
+
+      const plan = await this.apiClient.createTestPlan(planData);
+
+      const result = {
+        plan_id: plan.id,
+        name: plan.name,
+        product_id: plan.product,
+        version: version.value,
+        type: this.apiClient.getPlanTypeName(plan.type),
+        parent_id: plan.parent ?? null,
+        is_active: plan.is_active,
+        author: currentUser.username,
+        created_date: plan.create_date
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Error creating test plan:', error);
+      throw error;
+    }
+  }
+
+  async updatePlan(input: UpdatePlanInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Updating test plan', input);
+
+      const existingPlan = await this.apiClient.getTestPlan(input.plan_id);
+      const { patch } = input;
+
+      const updateData: Partial<KiwiTestPlan> = {};
+      if (patch.name !== undefined) updateData.name = patch.name.trim();
+      if (patch.text !== undefined) updateData.text = patch.text;
+      if (patch.version !== undefined) {
+        updateData.product_version = (await this.apiClient.findVersion(existingPlan.product, patch.version)).id;
+      }
+      if (patch.type !== undefined) updateData.type = this.apiClient.getPlanTypeId(patch.type);
+      if (patch.parent_id !== undefined) {
+        if (patch.parent_id !== null) {
+          await this.checkParent(input.plan_id, patch.parent_id);
+        }
+        updateData.parent = patch.parent_id;
+      }
+      if (patch.is_active !== undefined) updateData.is_active = patch.is_active;
+      if (patch.extra_link !== undefined) updateData.extra_link = patch.extra_link;
+
+      if (input.dry_run) {
+        return dryRunResult([{
+          action: 'update',
+          entity: 'plan',
+          id: input.plan_id,
+          data: updateData,
+          changes: fieldChanges(existingPlan, updateData)
+        }], { plan_id: input.plan_id });
+      }
+
+      const plan = await this.apiClient.updateTestPlan(input.plan_id, updateData);
+
+      const result = {
+        plan_id: plan.id,
+        updated_at: new Date().toISOString(),
+        name: plan.name,
+        product_version: plan.product_version ?? null,
+        type: this.apiClient.getPlanTypeName(plan.type),
+        parent_id: plan.parent ?? null,
+        is_active: plan.is_active,
+        updated_fields: Object.keys(updateData)
+      };
+
       return {
         content: [{
           type: 'text',
-          text: `Error updating test case: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
+          text: JSON.stringify(result, null, 2)
+        }]
       };
+    } catch (error) {
+      this.logger.error('Error updating test plan:', error);
+      throw error;
+    }
+  }
+
+  async clonePlan(input: ClonePlanInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Cloning test plan', input);
+
+      const source = await this.apiClient.getTestPlan(input.plan_id);
+      const version = input.version ? await this.apiClient.findVersion(source.product, input.version) : undefined;
+      const currentUser = await this.apiClient.getCurrentUser();
+      const mode = input.cases || 'link';
+      const cases = mode === 'none' ? [] : await this.apiClient.getAllTestCases({ plan: source.id });
+
+      const planData = {
+        name: input.name?.trim() || `Copy of ${source.name}`,
+        text: source.text,
+        product: source.product,
+        product_version: version ? version.id : source.product_version,
+        type: source.type,
+        parent: input.set_parent ? source.id : source.parent ?? null,
+        is_active: true,
+        extra_link: source.extra_link,
+        author: currentUser.id
+      };
+      // Copies belong to whoever cloned the plan; tags and components stay
+      // with the originals
+      const caseCopy = ({ id, create_date, tag, component, ...fields }: KiwiTestCase) => ({
+        ...fields,
+        author: currentUser.id
+      });
+
+      if (input.dry_run) {
+        const operations: PlannedOperation[] = [{ action: 'create', entity: 'plan', data: planData }];
+        for (const testCase of cases) {
+          if (mode === 'copy') {
+            operations.push({ action: 'create', entity: 'case', data: caseCopy(testCase) });
+            operations.push({ action: 'link', entity: 'case', data: { plan: newObjectRef('plan'), case: newObjectRef('case') } });
+          } else {
+            operations.push({ action: 'link', entity: 'case', id: testCase.id, data: { plan: newObjectRef('plan') } });
+          }
+        }
+        return dryRunResult(operations, {
+          source_plan_id: source.id,
+          version: version?.value,
+          cases: mode
+        });
+      }
+
+      // Writes carry an Idempotency-Key, so a throttled one is retried rather
+      // than leaving a partial clone
+      const result = await this.apiClient.withIdempotencyKey(idempotencyKey('clone_plan'), async () => {
+        const plan = await this.apiClient.createTestPlan(planData);
+
+        // A case that can't be linked or copied doesn't undo the clone
+        const linked: number[] = [];
+        const copied: Array<{ source_case_id: number; case_id: number }> = [];
+        const failed: Array<{ case_id: number; error: string }> = [];
+        for (const testCase of cases) {
+          try {
+            if (mode === 'copy') {
+              const copy = await this.apiClient.createTestCase(caseCopy(testCase));
+              await this.apiClient.addCaseToPlan(plan.id, copy.id);
+              copied.push({ source_case_id: testCase.id, case_id: copy.id });
+            } else {
+              await this.apiClient.addCaseToPlan(plan.id, testCase.id);
+              linked.push(testCase.id);
+            }
+          } catch (error) {
+            this.logger.warn(`Failed to ${mode} case ${testCase.id} into plan ${plan.id}:`, error);
+            failed.push({ case_id: testCase.id, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+
+        return {
+          plan_id: plan.id,
+          name: plan.name,
+          source_plan_id: source.id,
+          product_version: plan.product_version ?? null,
+          parent_id: plan.parent ?? null,
+          cases: mode,
+          linked,
+          copied,
+          failed
+        };
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Error cloning test plan:', error);
+      throw error;
+    }
+  }
+
+  // A plan can't become its own ancestor
+  private async checkParent(planId: number, parentId: number): Promise<void> {
+    const seen = new Set<number>();
+    let current: number | null | undefined = parentId;
+    while (current && !seen.has(current)) {
+      if (current === planId) {
+        throw new KiwiValidationError(`Plan ${parentId} can't be the parent of plan ${planId}: it is plan ${planId} or one of its children`, {
+          hint: 'Choose a parent outside the plan\'s own subtree (see kiwi.get_plan_tree).'
+        });
+      }
+      seen.add(current);
+      current = (await this.apiClient.getTestPlan(current)).parent;
     }
   }
 
@@ -0,0 +1,106 @@
+import { before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { KiwiApiClient } from '../kiwiApiClient.js';
+import { TestExecutionService } from './testExecutionService.js';
+import { ToolResult } from '../types/index.js';
+import { loadServerConfig } from '../utils/config.js';
+import { loadInstanceConfigs } from '../utils/instances.js';
+import { Logger } from '../utils/logger.js';
+
+// A client over a fresh copy of the built-in mock data
+async function mockClient(): Promise<KiwiApiClient> {
+  const [instance] = loadInstanceConfigs();
+  const client = new KiwiApiClient(instance);
+  await client.loadReferenceData();
+  return client;
+}
+
+function parse(result: ToolResult): any {
+  const [content] = result.content;
+  return content.type === 'text' ? JSON.parse(content.text) : undefined;
+}
+
+describe('TestExecutionService.createRun environments', () => {
+  let client: KiwiApiClient;
+  let service: TestExecutionService;
+  const run = { plan_id: 1, build: '1.0.0', case_ids: [1] };
+  const properties = async (environmentId: number) =>
+    (await client.getEnvironmentProperties([environmentId])).map(p => `${p.name}=${p.value}`);
+
+  before(() => {
+    Object.assign(process.env, { MOCK_MODE: 'true', KIWI_BASE_URL: 'http://kiwi.test', KIWI_TOKEN: 'test' });
+    loadServerConfig();
+    Logger.configure({ level: 'SILENT', format: 'text' });
+  });
+
+  beforeEach(async () => {
+    client = await mockClient();
+    service = new TestExecutionService(client);
+  });
+
+  it('runs in an existing environment found by name', async () => {
+    const result = parse(await service.createRun({ ...run, environment: ' Linux-Firefox ' }));
+    assert.equal(result.environment_id, 2);
+    assert.equal((await client.getTestRun(result.run_id)).environment, 2);
+    assert.equal((await client.getEnvironments({})).count, 2);
+  });
+
+  it('creates a missing environment with its properties', async () => {
+    const result = parse(await service.createRun({
+      ...run,
+      environment: 'Windows-Chrome',
+      environment_properties: [{ name: 'os', value: 'Windows' }, { name: 'browser', value: 'Chrome' }]
+    }));
+    assert.equal(result.environment, 'Windows-Chrome');
+    assert.equal(result.environment_id, 3);
+    assert.deepEqual(await properties(3), ['os=Windows', 'browser=Chrome']);
+  });
+
+  it('adds only the properties an existing environment lacks, once each', async () => {
+    await service.createRun({
+      ...run,
+      environment: 'Linux-Firefox',
+      environment_properties: [
+        { name: 'os', value: 'Linux' },
+        { name: 'locale', value: 'de' },
+        { name: 'locale', value: 'de ' }
+      ]
+    });
+    assert.deepEqual(await properties(2), ['os=Linux', 'browser=Firefox', 'locale=de']);
+  });
+
+  it('plans the environment writes without making them on a dry run', async () => {
+    const result = parse(await service.createRun({
+      ...run,
+      environment: 'Windows-Chrome',
+      environment_properties: [{ name: 'os', value: 'Windows' }],
+      dry_run: true
+    }));
+    assert.equal(result.environment_exists, false);
+    assert.deepEqual(result.operation_counts, {
+      create_environment: 1,
+      create_environment_property: 1,
+      create_run: 1,
+      create_execution: 1
+    });
+    assert.equal((await client.getEnvironments({})).count, 2);
+  });
+
+  it('reports the run\'s environment and its properties', async () => {
+    const { run_id } = parse(await service.createRun({
+      ...run,
+      environment: 'Linux-Firefox',
+      environment_properties: [{ name: 'locale', value: 'de' }]
+    }));
+    const result = parse(await service.getRun({ run_id }));
+    assert.deepEqual(result.environment, {
+      id: 2,
+      name: 'Linux-Firefox',
+      properties: [
+        { name: 'os', value: 'Linux' },
+        { name: 'browser', value: 'Firefox' },
+        { name: 'locale', value: 'de' }
+      ]
+    });
+  });
+});
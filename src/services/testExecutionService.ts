@@ -2,7 +2,11 @@
 
 import { KiwiApiClient } from '../kiwiApiClient.js';
 import { Logger } from '../utils/logger.js';
-import { validateId, validateStatus, validateJiraIssueKey } from '../utils/validation.js';
+import { KiwiValidationError, KiwiNotFoundError } from '../utils/errors.js';
+import { validateStatus, validateLimitAndOffset } from '../utils/validation.js';
+import { dryRunResult, fieldChanges, newObjectRef } from '../utils/dryRun.js';
+import { idempotencyKey } from '../utils/retry.js';
+import { encodeCursor, decodeCursor, paginateResults } from '../utils/pagination.js';
 import {
   ToolResult,
   CreateRunInput,
@@ -12,7 +16,15 @@ import {
   AttachArtifactInput,
   LinkJiraInput,
   RunReportInput,
-  TestRunReport
+  ListRunsInput,
+  TestRunReport,
+  RunDetails,
+  KiwiTestPlan,
+  KiwiTestRun,
+  KiwiEnvironment,
+  KiwiEnvironmentDetails,
+  CursorPaginatedResponse,
+  PlannedOperation
 } from '../types/index.js';
 
 export class TestExecutionService {
@@ -26,44 +38,18 @@ export class TestExecutionService {
     try {
       this.logger.info('Creating test run', input);
       
-      // Validate inputs
-      if (!validateId(input.plan_id)) {
-        throw new Error('Invalid plan_id: must be a positive integer');
-      }
-      
-      if (!input.build || input.build.trim().length === 0) {
-        throw new Error('Build name is required');
-      }
-      
-      if (!input.environment || input.environment.trim().length === 0) {
-        throw new Error('Environment name is required');
-      }
-      
-      if (!Array.isArray(input.case_ids) || input.case_ids.length === 0) {
-        throw new Error('case_ids must be a non-empty array');
-      }
-      
-      if (!input.case_ids.every(id => validateId(id))) {
-        throw new Error('All case_ids must be positive integers');
-      }
-
       // Get the test plan to validate it exists
       const testPlan = await this.apiClient.getTestPlan(input.plan_id);
       
-      // Find or create build
-      let build;
-      const builds = await this.apiClient.getBuilds({ version: testPlan.product });
-      const existingBuild = builds.results.find(b => b.name === input.build);
-      
-      if (existingBuild) {
-        build = existingBuild;
-      } else {
-        // Create new build
-        build = await this.apiClient.createBuild({
-          name: input.build,
-          version: testPlan.product_version || testPlan.product
-        });
-      }
+      // Find the build under the run's version, or plan to create it there
+      const versionId = await this.resolveRunVersion(testPlan, input.version);
+      const buildData = { name: input.build.trim(), version: versionId };
+      const [existingBuild] = (await this.apiClient.getBuilds(buildData)).results;
+
+      // Find the environment, or plan to create it, and the properties it lacks
+      const environmentData = { name: input.environment.trim() };
+      const [existingEnvironment] = (await this.apiClient.getEnvironments(environmentData)).results;
+      const missingProperties = await this.missingEnvironmentProperties(existingEnvironment, input.environment_properties);
 
       // Find or get default assignee
       let managerId = testPlan.owner || testPlan.author;
@@ -74,46 +60,89 @@ export class TestExecutionService {
         }
       }
 
-      // Create test run
       const runData = {
         summary: `Test Run for ${testPlan.name} - Build ${input.build}`,
-        notes: `Environment: ${input.environment}\nCreated via MCP`,
+        notes: 'Created via MCP',
         plan: input.plan_id,
-        build: build.id,
         manager: managerId,
         default_tester: managerId
       };
+      const executionData = <R extends number | string>(run: R, caseId: number) => ({
+        run,
+        case: caseId,
+        assignee: managerId,
+        status: this.apiClient.getIdleStatusId()
+      });
 
-      const testRun = await this.apiClient.createTestRun(runData);
+      if (input.dry_run) {
+        const operations: PlannedOperation[] = [];
+        if (!existingBuild) {
+          operations.push({ action: 'create', entity: 'build', data: buildData });
+        }
+        if (!existingEnvironment) {
+          operations.push({ action: 'create', entity: 'environment', data: environmentData });
+        }
+        const environmentId = existingEnvironment ? existingEnvironment.id : newObjectRef('environment');
+        for (const property of missingProperties) {
+          operations.push({ action: 'create', entity: 'environment_property', data: { environment: environmentId, ...property } });
+        }
+        operations.push({
+          action: 'create',
+          entity: 'run',
+          data: {
+            ...runData,
+            build: existingBuild ? existingBuild.id : newObjectRef('build'),
+            environment: environmentId
+          }
+        });
+        for (const caseId of input.case_ids) {
+          operations.push({ action: 'create', entity: 'execution', data: executionData(newObjectRef('run'), caseId) });
+        }
+        return dryRunResult(operations, {
+          plan_id: input.plan_id,
+          build: input.build,
+          version_id: versionId,
+          build_exists: Boolean(existingBuild),
+          environment: input.environment,
+          environment_exists: Boolean(existingEnvironment)
+        });
+      }
+
+      // Writes carry an Idempotency-Key, so a throttled one is retried rather
+      // than failing halfway through the run's setup
+      const result = await this.apiClient.withIdempotencyKey(idempotencyKey('create_run'), async () => {
+        const build = existingBuild || await this.apiClient.createBuild(buildData);
+        const environment = existingEnvironment || await this.apiClient.createEnvironment(environmentData);
+        for (const property of missingProperties) {
+          await this.apiClient.addEnvironmentProperty(environment.id, property.name, property.value);
+        }
+        const testRun = await this.apiClient.createTestRun({ ...runData, build: build.id, environment: environment.id });
       
-      // Add test cases to the run (create test executions)
-      const createdCases = [];
-      for (const caseId of input.case_ids) {
-        try {
-          const execution = await this.apiClient.createTestExecution({
-            run: testRun.id,
-            case: caseId,
-            assignee: managerId,
-            status: this.apiClient.getStatusId('IDLE')
-          });
+        // Add test cases to the run (create test executions)
+        const createdCases = [];
+        for (const caseId of input.case_ids) {
+          try {
+            const execution = await this.apiClient.createTestExecution(executionData(testRun.id, caseId));
           
-          createdCases.push({
-            case_id: caseId,
-            execution_id: execution.id
-          });
-        } catch (error) {
-          this.logger.warn(`Failed to add case ${caseId} to run:`, error);
-          // Continue with other cases
+            createdCases.push({
+              case_id: caseId,
+              execution_id: execution.id
+            });
+          } catch (error) {
+            this.logger.warn(`Failed to add case ${caseId} to run:`, error);
+            // Continue with other cases
+          }
         }
-      }
 
-      const result = {
-        run_id: testRun.id,
-        created_cases: createdCases,
-        environment: input.environment,
-        build: input.build,
-        total_cases: createdCases.length
-      };
+        return {
+          run_id: testRun.id,
+          created_cases: createdCases,
+          environment: environment.name,
+          environment_id: environment.id,
+          build: input.build,
+          total_cases: createdCases.length
+        };
+      });
 
       return {
         content: [{
@@ -123,61 +152,78 @@ export class TestExecutionService {
       };
     } catch (error) {
       this.logger.error('Error creating test run:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error creating test run: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
+    }
+  }
+
+  // Requested properties the environment doesn't have yet (all of them for a new one)
+  private async missingEnvironmentProperties(
+    environment: KiwiEnvironment | undefined,
+    properties: Array<{ name: string; value: string }> = []
+  ): Promise<Array<{ name: string; value: string }>> {
+    const wanted = properties.map(p => ({ name: p.name.trim(), value: p.value.trim() }));
+    const existing = environment ? await this.apiClient.getEnvironmentProperties([environment.id]) : [];
+    return wanted.filter((property, index) =>
+      !existing.some(p => p.name === property.name && p.value === property.value) &&
+      wanted.findIndex(p => p.name === property.name && p.value === property.value) === index);
+  }
+
+  // Builds belong to a product version: the one named, else the plan's own
+  private async resolveRunVersion(testPlan: KiwiTestPlan, version?: string | null): Promise<number> {
+    if (version) {
+      return (await this.apiClient.findVersion(testPlan.product, version)).id;
+    }
+    if (!testPlan.product_version) {
+      throw new KiwiValidationError(`Test plan ${testPlan.id} has no product version`, {
+        hint: 'Pass the product version the build belongs to as version.'
+      });
     }
+    return testPlan.product_version;
   }
 
   async addCasesToRun(input: AddCasesToRunInput): Promise<ToolResult> {
     try {
       this.logger.info('Adding cases to test run', input);
       
-      if (!validateId(input.run_id)) {
-        throw new Error('Invalid run_id: must be a positive integer');
-      }
-      
-      if (!Array.isArray(input.case_ids) || input.case_ids.length === 0) {
-        throw new Error('case_ids must be a non-empty array');
-      }
-      
-      if (!input.case_ids.every(id => validateId(id))) {
-        throw new Error('All case_ids must be positive integers');
-      }
-
       // Get test run to validate it exists
       const testRun = await this.apiClient.getTestRun(input.run_id);
+      const executionData = (caseId: number) => ({
+        run: input.run_id,
+        case: caseId,
+        assignee: testRun.default_tester,
+        status: this.apiClient.getIdleStatusId()
+      });
+
+      if (input.dry_run) {
+        return dryRunResult(
+          input.case_ids.map(caseId => ({ action: 'create', entity: 'execution', data: executionData(caseId) })),
+          { run_id: input.run_id }
+        );
+      }
       
-      // Add test cases to the run
-      const added = [];
-      for (const caseId of input.case_ids) {
-        try {
-          const execution = await this.apiClient.createTestExecution({
-            run: input.run_id,
-            case: caseId,
-            assignee: testRun.default_tester,
-            status: this.apiClient.getStatusId('IDLE')
-          });
+      const result = await this.apiClient.withIdempotencyKey(idempotencyKey('add_cases_to_run'), async () => {
+        // Add test cases to the run
+        const added = [];
+        for (const caseId of input.case_ids) {
+          try {
+            const execution = await this.apiClient.createTestExecution(executionData(caseId));
           
-          added.push({
-            case_id: caseId,
-            execution_id: execution.id
-          });
-        } catch (error) {
-          this.logger.warn(`Failed to add case ${caseId} to run:`, error);
-          // Continue with other cases
+            added.push({
+              case_id: caseId,
+              execution_id: execution.id
+            });
+          } catch (error) {
+            this.logger.warn(`Failed to add case ${caseId} to run:`, error);
+            // Continue with other cases
+          }
         }
-      }
 
-      const result = {
-        run_id: input.run_id,
-        added,
-        total_added: added.length
-      };
+        return {
+          run_id: input.run_id,
+          added,
+          total_added: added.length
+        };
+      });
 
       return {
         content: [{
@@ -187,26 +233,106 @@ export class TestExecutionService {
       };
     } catch (error) {
       this.logger.error('Error adding cases to run:', error);
+      throw error;
+    }
+  }
+
+  async listRuns(input: ListRunsInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Listing test runs', input);
+
+      const filters = {
+        plan_id: input.plan_id,
+        environment: input.environment,
+        environment_properties: input.environment_properties
+      };
+      const { limit, offset } = validateLimitAndOffset(input.limit, decodeCursor('runs', input.cursor, filters));
+
+      const environmentIds = await this.matchingEnvironments(input.environment, input.environment_properties);
+      const response = environmentIds && environmentIds.length === 0
+        ? paginateResults<KiwiTestRun>([], limit, offset)
+        : await this.apiClient.getTestRuns({
+          plan: input.plan_id || undefined,
+          environments: environmentIds,
+          limit,
+          offset
+        });
+      const environments = await this.describeEnvironments(response.results.map(run => run.environment));
+
+      const items = response.results.map(run => ({
+        run_id: run.id,
+        summary: run.summary,
+        plan_id: run.plan,
+        build_id: run.build,
+        environment: (run.environment && environments.get(run.environment)) || null,
+        start_date: run.start_date,
+        stop_date: run.stop_date
+      }));
+
+      const result: CursorPaginatedResponse<any> = {
+        items,
+        next_cursor: response.next ? encodeCursor('runs', offset + limit, filters) : undefined
+      };
+
       return {
         content: [{
           type: 'text',
-          text: `Error adding cases to run: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
+          text: JSON.stringify(result, null, 2)
+        }]
       };
+    } catch (error) {
+      this.logger.error('Error listing test runs:', error);
+      throw error;
+    }
+  }
+
+  // IDs of the environments with the given name and all the given
+  // properties; undefined when neither filter is set. Unknown names match nothing.
+  private async matchingEnvironments(
+    name?: string | null,
+    properties: Array<{ name: string; value: string }> = []
+  ): Promise<number[] | undefined> {
+    if (!name && properties.length === 0) {
+      return undefined;
     }
+
+    const candidates = name
+      ? (await this.apiClient.getEnvironments({ name: name.trim() })).results
+      : await this.apiClient.getAllEnvironments();
+    if (properties.length === 0) {
+      return candidates.map(environment => environment.id);
+    }
+
+    const rows = await this.apiClient.getEnvironmentProperties(candidates.map(environment => environment.id));
+    return candidates
+      .filter(environment => properties.every(wanted => rows.some(row =>
+        row.environment === environment.id && row.name === wanted.name.trim() && row.value === wanted.value.trim())))
+      .map(environment => environment.id);
+  }
+
+  // Name and properties of each environment, fetched once per environment
+  private async describeEnvironments(ids: Array<number | null | undefined>): Promise<Map<number, KiwiEnvironmentDetails>> {
+    const unique = [...new Set(ids.filter((id): id is number => Boolean(id)))];
+    const [environments, properties] = await Promise.all([
+      Promise.all(unique.map(id => this.apiClient.getEnvironment(id))),
+      this.apiClient.getEnvironmentProperties(unique)
+    ]);
+
+    return new Map(environments.map(environment => [environment.id, {
+      id: environment.id,
+      name: environment.name,
+      properties: properties
+        .filter(property => property.environment === environment.id)
+        .map(({ name, value }) => ({ name, value }))
+    }]));
   }
 
   async getRun(input: GetRunInput): Promise<ToolResult> {
     try {
       this.logger.info('Getting test run', input);
-      
-      if (!validateId(input.run_id)) {
-        throw new Error('Invalid run_id: must be a positive integer');
-      }
 
       const testRun = await this.apiClient.getTestRun(input.run_id);
-      const executions = await this.apiClient.getTestExecutions({ run: input.run_id });
+      const executions = await this.apiClient.getAllTestExecutions({ run: input.run_id });
       
       // Get build info
       const build = await this.apiClient.getBuild(testRun.build);
@@ -214,17 +340,19 @@ export class TestExecutionService {
       // Get plan info
       const plan = await this.apiClient.getTestPlan(testRun.plan);
 
-      const result = {
+      const environments = await this.describeEnvironments([testRun.environment]);
+
+      const result: RunDetails = {
         run_id: testRun.id,
         plan_id: testRun.plan,
         plan_name: plan.name,
         build: build.name,
-        environment: 'Default', // Would need to be stored in notes or custom field
+        environment: (testRun.environment && environments.get(testRun.environment)) || null,
         summary: testRun.summary,
         notes: testRun.notes,
         start_date: testRun.start_date,
         stop_date: testRun.stop_date,
-        executions: executions.results.map(exec => ({
+        executions: executions.map(exec => ({
           execution_id: exec.id,
           case_id: exec.case,
           status: this.apiClient.getStatusName(exec.status),
@@ -244,13 +372,7 @@ export class TestExecutionService {
       };
     } catch (error) {
       this.logger.error('Error getting test run:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error getting test run: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
     }
   }
 
@@ -258,16 +380,11 @@ export class TestExecutionService {
     try {
       this.logger.info('Executing test case', input);
       
-      if (!validateId(input.run_id)) {
-        throw new Error('Invalid run_id: must be a positive integer');
-      }
-      
-      if (!validateId(input.case_id)) {
-        throw new Error('Invalid case_id: must be a positive integer');
-      }
-      
-      if (!validateStatus(input.status)) {
-        throw new Error('Invalid status: must be PASS, FAIL, BLOCKED, or ERROR');
+      // Status names differ per instance, so they are checked here rather
+      // than by the tool schema
+      const validStatuses = this.apiClient.getStatusNames();
+      if (!validateStatus(input.status, validStatuses)) {
+        throw new KiwiValidationError(`Invalid status: must be one of ${validStatuses.join(', ')}`);
       }
 
       // Find the test execution for this case in this run
@@ -277,7 +394,9 @@ export class TestExecutionService {
       });
       
       if (executions.results.length === 0) {
-        throw new Error(`No execution found for case ${input.case_id} in run ${input.run_id}`);
+        throw new KiwiNotFoundError(`Case ${input.case_id} is not in run ${input.run_id}`, {
+          hint: `Add it first with kiwi.add_cases_to_run (run_id ${input.run_id}), or check the run with kiwi.get_run.`
+        });
       }
       
       const execution = executions.results[0];
@@ -302,6 +421,21 @@ export class TestExecutionService {
         updateData.start_date = new Date().toISOString();
       }
 
+      if (input.dry_run) {
+        return dryRunResult([{
+          action: 'update',
+          entity: 'execution',
+          id: execution.id,
+          data: updateData,
+          changes: fieldChanges(execution, updateData)
+        }], {
+          execution_id: execution.id,
+          case_id: input.case_id,
+          run_id: input.run_id,
+          status: { from: this.apiClient.getStatusName(execution.status), to: this.apiClient.getStatusName(updateData.status) }
+        });
+      }
+
       const updatedExecution = await this.apiClient.updateTestExecution(execution.id, updateData);
       
       // Handle evidence/attachments (simplified - would need file upload API)
@@ -312,10 +446,8 @@ export class TestExecutionService {
       
       // Handle Jira linking (simplified - would need Jira integration)
       if (input.jira_issue_key) {
-        if (validateJiraIssueKey(input.jira_issue_key)) {
-          this.logger.info('Jira linking requested but not implemented', input.jira_issue_key);
-          // In a full implementation, this would create a link to Jira
-        }
+        this.logger.info('Jira linking requested but not implemented', input.jira_issue_key);
+        // In a full implementation, this would create a link to Jira
       }
 
       const result = {
@@ -334,13 +466,7 @@ export class TestExecutionService {
       };
     } catch (error) {
       this.logger.error('Error executing test case:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error executing test case: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
     }
   }
 
@@ -360,13 +486,7 @@ export class TestExecutionService {
       };
     } catch (error) {
       this.logger.error('Error attaching artifact:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error attaching artifact: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
     }
   }
 
@@ -374,10 +494,6 @@ export class TestExecutionService {
     try {
       this.logger.info('Linking Jira issue', input);
       
-      if (input.issue_key && !validateJiraIssueKey(input.issue_key)) {
-        throw new Error('Invalid Jira issue key format');
-      }
-      
       // Simplified implementation - would need Jira integration
       return {
         content: [{
@@ -390,13 +506,7 @@ export class TestExecutionService {
       };
     } catch (error) {
       this.logger.error('Error linking Jira issue:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error linking Jira issue: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
     }
   }
 
@@ -404,46 +514,9 @@ export class TestExecutionService {
     try {
       this.logger.info('Generating run report', input);
       
-      if (!validateId(input.run_id)) {
-        throw new Error('Invalid run_id: must be a positive integer');
-      }
-      
-      const validFormats = ['json', 'junit', 'html'];
-      if (!validFormats.includes(input.format)) {
-        throw new Error('Invalid format: must be json, junit, or html');
-      }
-
-      // Get test run and executions
-      const testRun = await this.apiClient.getTestRun(input.run_id);
-      const executions = await this.apiClient.getTestExecutions({ run: input.run_id });
-      
-      // Calculate statistics
-      const stats = {
-        pass: 0,
-        fail: 0,
-        blocked: 0,
-        error: 0,
-        idle: 0
-      };
-      
-      executions.results.forEach(exec => {
-        const status = this.apiClient.getStatusName(exec.status).toLowerCase();
-        if (status in stats) {
-          stats[status as keyof typeof stats]++;
-        }
-      });
-      
-      const total = executions.results.length;
+      const report = await this.renderRunReport(input.run_id, input.format);
       
-      if (input.format === 'json') {
-        const report: TestRunReport = {
-          pass: stats.pass,
-          fail: stats.fail,
-          blocked: stats.blocked,
-          error: stats.error,
-          total
-        };
-        
+      if (typeof report !== 'string') {
         return {
           content: [{
             type: 'text',
@@ -451,12 +524,8 @@ export class TestExecutionService {
           }]
         };
       } else {
-        // For junit/html, return base64 encoded content (simplified)
-        const mockContent = input.format === 'junit' 
-          ? `<?xml version="1.0" encoding="UTF-8"?><testsuite tests="${total}" failures="${stats.fail}" errors="${stats.error}" skipped="${stats.blocked}"></testsuite>`
-          : `<html><body><h1>Test Report</h1><p>Total: ${total}, Pass: ${stats.pass}, Fail: ${stats.fail}</p></body></html>`;
-        
-        const content_b64 = Buffer.from(mockContent).toString('base64');
+        // For junit/html, return base64 encoded content
+        const content_b64 = Buffer.from(report).toString('base64');
         
         return {
           content: [{
@@ -467,13 +536,64 @@ export class TestExecutionService {
       }
     } catch (error) {
       this.logger.error('Error generating run report:', error);
+      throw error;
+    }
+  }
+
+  /** Report statistics for `json`, or the rendered document for `junit`/`html`. */
+  async renderRunReport(runId: number, format: RunReportInput['format']): Promise<TestRunReport | string> {
+    // Get test run and executions
+    const testRun = await this.apiClient.getTestRun(runId);
+    const executions = await this.apiClient.getAllTestExecutions({ run: runId });
+    
+    // Calculate statistics, bucketed by the server's status weights
+    // (blocked and error count towards fail, as in Kiwi TCMS itself)
+    const stats = {
+      pass: 0,
+      fail: 0,
+      blocked: 0,
+      error: 0,
+      neutral: 0
+    };
+    const byStatus: Record<string, number> = {};
+    // JUnit failures: fail-outcome executions that JUnit doesn't report as errors or skips
+    let failures = 0;
+    
+    executions.forEach(exec => {
+      const status = this.apiClient.getStatusName(exec.status);
+      const outcome = this.apiClient.getStatusOutcome(exec.status);
+      byStatus[status] = (byStatus[status] || 0) + 1;
+      stats[outcome]++;
+      if (status === 'BLOCKED') stats.blocked++;
+      if (status === 'ERROR') stats.error++;
+      if (outcome === 'fail' && status !== 'BLOCKED' && status !== 'ERROR') failures++;
+    });
+    
+    const total = executions.length;
+    
+    if (format === 'json') {
       return {
-        content: [{
-          type: 'text',
-          text: `Error generating run report: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
+        pass: stats.pass,
+        fail: stats.fail,
+        blocked: stats.blocked,
+        error: stats.error,
+        neutral: stats.neutral,
+        total,
+        by_status: byStatus
       };
     }
+
+    return format === 'junit' 
+      ? `<?xml version="1.0" encoding="UTF-8"?><testsuite name="${this.escapeXml(testRun.summary)}" tests="${total}" failures="${failures}" errors="${stats.error}" skipped="${stats.blocked}"></testsuite>`
+      : `<html><body><h1>Test Report</h1><p>Total: ${total}, Pass: ${stats.pass}, Fail: ${stats.fail}</p></body></html>`;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
   }
+
 }
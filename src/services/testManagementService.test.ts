@@ -0,0 +1,79 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { KiwiApiClient } from '../kiwiApiClient.js';
+import { TestManagementService } from './testManagementService.js';
+import { ListCasesInput, ToolResult } from '../types/index.js';
+import { loadServerConfig } from '../utils/config.js';
+import { loadInstanceConfigs } from '../utils/instances.js';
+import { Logger } from '../utils/logger.js';
+import { KiwiValidationError } from '../utils/errors.js';
+
+// A service over a fresh copy of the built-in mock data
+async function mockService(): Promise<TestManagementService> {
+  const [instance] = loadInstanceConfigs();
+  const client = new KiwiApiClient(instance);
+  await client.loadReferenceData();
+  return new TestManagementService(client);
+}
+
+function parse(result: ToolResult): any {
+  const [content] = result.content;
+  return content.type === 'text' ? JSON.parse(content.text) : undefined;
+}
+
+describe('TestManagementService.listCases', () => {
+  let service: TestManagementService;
+  const caseIds = async (input: ListCasesInput) =>
+    parse(await service.listCases(input)).items.map((item: { id: number }) => item.id);
+
+  before(async () => {
+    Object.assign(process.env, { MOCK_MODE: 'true', KIWI_BASE_URL: 'http://kiwi.test', KIWI_TOKEN: 'test' });
+    loadServerConfig();
+    Logger.configure({ level: 'SILENT', format: 'text' });
+    service = await mockService();
+  });
+
+  it('searches every plan of a product', async () => {
+    assert.deepEqual(await caseIds({ product_id: 1 }), [1, 2, 3, 4]);
+    assert.deepEqual(await caseIds({ product_id: 2 }), [5]);
+  });
+
+  it('narrows a product search to one of its plans', async () => {
+    assert.deepEqual(await caseIds({ product_id: 1, plan_id: 2 }), [4]);
+    assert.deepEqual(await caseIds({ product_id: 2, plan_id: 1 }), []);
+  });
+
+  it('matches any of several tags by default', async () => {
+    assert.deepEqual(await caseIds({ tags: ['smoke', 'regression'] }), [1, 2, 4]);
+    assert.deepEqual(await caseIds({ tags: ['smoke', 'no-such-tag'] }), [1, 4]);
+  });
+
+  it('matches all of several tags with tag_match all', async () => {
+    assert.deepEqual(await caseIds({ tags: ['smoke', 'regression'], tag_match: 'all' }), [4]);
+    assert.deepEqual(await caseIds({ tags: ['smoke', 'no-such-tag'], tag_match: 'all' }), []);
+  });
+
+  it('filters by component name within a product', async () => {
+    assert.deepEqual(await caseIds({ component: 'Authentication' }), [1, 2, 3]);
+    assert.deepEqual(await caseIds({ product_id: 1, component: 'API' }), [4]);
+  });
+
+  it('rejects an unknown component', async () => {
+    await assert.rejects(service.listCases({ product_id: 2, component: 'API' }), (error: unknown) =>
+      error instanceof KiwiValidationError && error.message === 'Unknown component: API');
+  });
+
+  it('combines plan, tag and component filters', async () => {
+    assert.deepEqual(await caseIds({ plan_id: 1, tags: ['regression'], component: 'Authentication' }), [2]);
+  });
+
+  it('pages a multi-plan search with a cursor', async () => {
+    const first = parse(await service.listCases({ product_id: 1, limit: 3 }));
+    assert.deepEqual(first.items.map((item: { id: number }) => item.id), [1, 2, 3]);
+    assert.ok(first.next_cursor);
+
+    const second = parse(await service.listCases({ product_id: 1, limit: 3, cursor: first.next_cursor }));
+    assert.deepEqual(second.items.map((item: { id: number }) => item.id), [4]);
+    assert.equal(second.next_cursor, undefined);
+  });
+});
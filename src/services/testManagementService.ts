@@ -2,14 +2,21 @@
 
 import { KiwiApiClient } from '../kiwiApiClient.js';
 import { Logger } from '../utils/logger.js';
+import { KiwiValidationError } from '../utils/errors.js';
 import { validateId, validateLimitAndOffset } from '../utils/validation.js';
+import { encodeCursor, decodeCursor } from '../utils/pagination.js';
 import {
   ToolResult,
   ListProductsInput,
   ListPlansInput,
   ListCasesInput,
   GetCaseInput,
-  CursorPaginatedResponse
+  GetPlanInput,
+  GetPlanTreeInput,
+  CaseDetails,
+  KiwiTestPlan,
+  CursorPaginatedResponse,
+  TestCaseSearch
 } from '../types/index.js';
 
 export class TestManagementService {
@@ -24,7 +31,8 @@ export class TestManagementService {
       this.logger.info('Listing products', input);
       
       const query = input.query || {};
-      const { limit, offset } = validateLimitAndOffset(query.limit, 0);
+      const filters = { name_contains: query.name_contains };
+      const { limit, offset } = validateLimitAndOffset(query.limit, decodeCursor('products', query.cursor, filters));
       
       const params: any = { limit, offset };
       if (query.name_contains) {
@@ -43,7 +51,7 @@ export class TestManagementService {
 
       const result: CursorPaginatedResponse<any> = {
         items,
-        next_cursor: response.next ? `offset_${offset + limit}` : undefined
+        next_cursor: response.next ? encodeCursor('products', offset + limit, filters) : undefined
       };
 
       return {
@@ -54,25 +62,16 @@ export class TestManagementService {
       };
     } catch (error) {
       this.logger.error('Error listing products:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error listing products: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
     }
   }
 
   async listPlans(input: ListPlansInput): Promise<ToolResult> {
     try {
       this.logger.info('Listing test plans', input);
-      
-      if (!validateId(input.product_id)) {
-        throw new Error('Invalid product_id: must be a positive integer');
-      }
 
-      const { limit, offset } = validateLimitAndOffset(input.limit, 0);
+      const filters = { product_id: input.product_id, version: input.version };
+      const { limit, offset } = validateLimitAndOffset(input.limit, decodeCursor('plans', input.cursor, filters));
       
       const params: any = { 
         limit, 
@@ -81,28 +80,27 @@ export class TestManagementService {
       };
 
       if (input.version) {
-        // Find version by value
-        const builds = await this.apiClient.getBuilds({ version: input.product_id });
-        const build = builds.results.find(b => b.name === input.version);
-        if (build) {
-          params.product_version = build.id;
-        }
+        params.product_version = (await this.apiClient.findVersion(input.product_id, input.version)).id;
       }
 
       const response = await this.apiClient.getTestPlans(params);
+      const versions = new Map(
+        (await this.apiClient.getAllVersions({ product: input.product_id })).map(version => [version.id, version.value])
+      );
       
       const items = response.results.map(plan => ({
         id: plan.id,
         name: plan.name,
         product_id: plan.product,
-        version: input.version || null,
+        version: (plan.product_version && versions.get(plan.product_version)) || null,
+        parent_id: plan.parent ?? null,
         is_active: plan.is_active,
         created_date: plan.create_date
       }));
 
       const result: CursorPaginatedResponse<any> = {
         items,
-        next_cursor: response.next ? `offset_${offset + limit}` : undefined
+        next_cursor: response.next ? encodeCursor('plans', offset + limit, filters) : undefined
       };
 
       return {
@@ -113,13 +111,7 @@ export class TestManagementService {
       };
     } catch (error) {
       this.logger.error('Error listing test plans:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error listing test plans: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
     }
   }
 
@@ -127,38 +119,30 @@ export class TestManagementService {
     try {
       this.logger.info('Listing test cases', input);
       
-      const { limit, offset } = validateLimitAndOffset(input.limit, 0);
-      
-      const params: any = { limit, offset };
-      
-      if (input.plan_id && validateId(input.plan_id)) {
-        params.plan = input.plan_id;
-      }
-      
-      if (input.product_id && validateId(input.product_id)) {
-        // Get cases for all plans in the product
-        const plans = await this.apiClient.getTestPlans({ product: input.product_id });
-        if (plans.results.length > 0) {
-          params.plan = plans.results[0].id; // Simplified: use first plan
-        }
-      }
-      
-      if (input.text) {
-        params.summary = input.text;
-      }
-      
-      if (input.tags && input.tags.length > 0) {
-        params.tag = input.tags[0]; // Simplified: use first tag
-      }
+      const filters = {
+        plan_id: input.plan_id,
+        product_id: input.product_id,
+        tags: input.tags,
+        tag_match: input.tag_match,
+        component: input.component,
+        priority: input.priority,
+        is_automated: input.is_automated,
+        case_status: input.case_status,
+        author: input.author,
+        text: input.text
+      };
+      const { limit, offset } = validateLimitAndOffset(input.limit, decodeCursor('cases', input.cursor, filters));
 
-      const response = await this.apiClient.getTestCases(params);
+      const search = await this.resolveCaseSearch(input);
+      const response = await this.apiClient.searchTestCases(search, { limit, offset });
+      const details = await this.apiClient.getCaseDetails(response.results);
       
       const items = response.results.map(testCase => ({
         id: testCase.id,
         summary: testCase.summary,
         priority: this.apiClient.getPriorityName(testCase.priority),
-        tags: [], // Tags would need separate API call
-        component: testCase.category || null,
+        case_status: this.apiClient.getCaseStatusName(testCase.case_status),
+        ...details.get(testCase.id),
         is_automated: testCase.is_automated,
         author: testCase.author,
         create_date: testCase.create_date
@@ -166,7 +150,7 @@ export class TestManagementService {
 
       const result: CursorPaginatedResponse<any> = {
         items,
-        next_cursor: response.next ? `offset_${offset + limit}` : undefined
+        next_cursor: response.next ? encodeCursor('cases', offset + limit, filters) : undefined
       };
 
       return {
@@ -177,36 +161,178 @@ export class TestManagementService {
       };
     } catch (error) {
       this.logger.error('Error listing test cases:', error);
+      throw error;
+    }
+  }
+
+  // Turn list_cases arguments into IDs. Unknown tags match no case; an
+  // unknown component, priority, status or author is an argument error.
+  private async resolveCaseSearch(input: ListCasesInput): Promise<TestCaseSearch> {
+    const search: TestCaseSearch = {
+      summary: input.text || undefined,
+      is_automated: input.is_automated ?? undefined,
+      priority: input.priority ? this.apiClient.getPriorityId(input.priority) : undefined,
+      case_status: input.case_status ? this.apiClient.getCaseStatusId(input.case_status) : undefined
+    };
+
+    if (input.product_id) {
+      const planIds = (await this.apiClient.getAllTestPlans({ product: input.product_id })).map(plan => plan.id);
+      search.plans = input.plan_id ? planIds.filter(id => id === input.plan_id) : planIds;
+    } else if (input.plan_id) {
+      search.plan = input.plan_id;
+    }
+
+    if (input.tags && input.tags.length > 0) {
+      const names = [...new Set(input.tags)];
+      const tags = await Promise.all(names.map(async name => (await this.apiClient.getTags({ name })).results[0]));
+      const tagIds = tags.filter(tag => tag !== undefined).map(tag => tag.id);
+      if (input.tag_match === 'all' && tagIds.length < names.length) {
+        // A tag no case carries rules out every case
+        search.tags = [];
+      } else if (input.tag_match === 'all' && tagIds.length > 1) {
+        search.all_tags = tagIds;
+      } else {
+        search.tags = tagIds;
+      }
+    }
+
+    if (input.component) {
+      const components = await this.apiClient.getAllComponents({
+        name: input.component,
+        product: input.product_id || undefined
+      });
+      if (components.length === 0) {
+        throw new KiwiValidationError(`Unknown component: ${input.component}`, {
+          hint: input.product_id
+            ? `Use a component name defined for product ${input.product_id}.`
+            : 'Use a component name defined in Kiwi TCMS; product_id narrows the lookup to one product.'
+        });
+      }
+      search.components = components.map(component => component.id);
+    }
+
+    if (input.author) {
+      const [author] = (await this.apiClient.getUsers({ username: input.author })).results;
+      if (!author) {
+        throw new KiwiValidationError(`Unknown author: ${input.author}`, {
+          hint: 'Give the Kiwi TCMS username of the case author.'
+        });
+      }
+      search.author = author.id;
+    }
+
+    return search;
+  }
+
+  async getPlan(input: GetPlanInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Getting test plan', input);
+      
+      if (!validateId(input.plan_id)) {
+        throw new KiwiValidationError('Invalid plan_id: must be a positive integer');
+      }
+
+      const plan = await this.apiClient.getTestPlan(input.plan_id);
+      const cases = await this.apiClient.getAllTestCases({ plan: input.plan_id });
+      
+      const result = {
+        id: plan.id,
+        name: plan.name,
+        text: plan.text,
+        product_id: plan.product,
+        product_version: plan.product_version || null,
+        is_active: plan.is_active,
+        author: plan.author,
+        created_date: plan.create_date,
+        cases: cases.map(testCase => ({
+          id: testCase.id,
+          summary: testCase.summary,
+          priority: this.apiClient.getPriorityName(testCase.priority),
+          is_automated: testCase.is_automated
+        }))
+      };
+
       return {
         content: [{
           type: 'text',
-          text: `Error listing test cases: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
+          text: JSON.stringify(result, null, 2)
+        }]
       };
+    } catch (error) {
+      this.logger.error('Error getting test plan:', error);
+      throw error;
     }
   }
 
+  async getPlanTree(input: GetPlanTreeInput): Promise<ToolResult> {
+    try {
+      this.logger.info('Getting test plan tree', input);
+
+      const plan = await this.apiClient.getTestPlan(input.plan_id);
+
+      // Parent chain, walked upwards and reported root first
+      const ancestors: Array<{ id: number; name: string }> = [];
+      const seen = new Set<number>([plan.id]);
+      let parentId = plan.parent;
+      while (parentId && !seen.has(parentId)) {
+        const parent = await this.apiClient.getTestPlan(parentId);
+        ancestors.unshift({ id: parent.id, name: parent.name });
+        seen.add(parent.id);
+        parentId = parent.parent;
+      }
+
+      const result = {
+        plan_id: plan.id,
+        ancestors,
+        tree: await this.planNode(plan, new Set(ancestors.map(a => a.id)))
+      };
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error) {
+      this.logger.error('Error getting test plan tree:', error);
+      throw error;
+    }
+  }
+
+  // A plan and its descendants; `visited` guards against parent cycles
+  private async planNode(plan: KiwiTestPlan, visited: Set<number>): Promise<Record<string, any>> {
+    visited.add(plan.id);
+    const children = (await this.apiClient.getAllTestPlans({ parent: plan.id })).filter(child => !visited.has(child.id));
+    const childNodes = [];
+    for (const child of children) {
+      childNodes.push(await this.planNode(child, visited));
+    }
+    return {
+      id: plan.id,
+      name: plan.name,
+      product_version: plan.product_version ?? null,
+      type: this.apiClient.getPlanTypeName(plan.type),
+      is_active: plan.is_active,
+      children: childNodes
+    };
+  }
+
   async getCase(input: GetCaseInput): Promise<ToolResult> {
     try {
       this.logger.info('Getting test case', input);
-      
-      if (!validateId(input.case_id)) {
-        throw new Error('Invalid case_id: must be a positive integer');
-      }
 
       const testCase = await this.apiClient.getTestCase(input.case_id);
+      const details = await this.apiClient.getCaseDetails([testCase]);
       
       // Parse test steps from text fields
       const steps = this.parseTestSteps(testCase.action, testCase.expected_result);
       
-      const result = {
+      const result: CaseDetails = {
         id: testCase.id,
         summary: testCase.summary,
         steps,
         preconds: testCase.setup || null,
-        tags: [], // Would need separate API call to get tags
-        component: testCase.category || null,
+        ...details.get(testCase.id),
         priority: this.apiClient.getPriorityName(testCase.priority),
         is_automated: testCase.is_automated,
         text: testCase.text,
@@ -225,13 +351,7 @@ export class TestManagementService {
       };
     } catch (error) {
       this.logger.error('Error getting test case:', error);
-      return {
-        content: [{
-          type: 'text',
-          text: `Error getting test case: ${error instanceof Error ? error.message : 'Unknown error'}`
-        }],
-        isError: true
-      };
+      throw error;
     }
   }
 
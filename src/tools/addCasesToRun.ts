@@ -0,0 +1,34 @@
+// kiwi.add_cases_to_run tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { dryRun } from './common.js';
+
+export const addCasesToRunSchema = {
+  type: 'object',
+  properties: {
+    run_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test run ID to add cases to'
+    },
+    case_ids: {
+      type: 'array',
+      items: { type: 'integer', minimum: 1 },
+      minItems: 1,
+      description: 'Array of test case IDs to add to the run'
+    },
+    dry_run: dryRun
+  },
+  required: ['run_id', 'case_ids'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const addCasesToRunTool = defineTool({
+  name: 'kiwi.add_cases_to_run',
+  description: 'Add additional test cases to an existing test run',
+  category: 'Execution',
+  inputSchema: addCasesToRunSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (args, { services }) => services.testExecutionService.addCasesToRun(args)
+});
@@ -0,0 +1,39 @@
+// kiwi.attach_artifact tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { artifactType } from './common.js';
+
+export const attachArtifactSchema = {
+  type: 'object',
+  properties: {
+    execution_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test execution ID to attach artifact to'
+    },
+    type: {
+      ...artifactType,
+      description: 'Type of artifact'
+    },
+    uri: {
+      type: 'string',
+      description: 'URI to the artifact file'
+    },
+    title: {
+      type: ['string', 'null'],
+      description: 'Optional title for the artifact'
+    }
+  },
+  required: ['execution_id', 'type', 'uri'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const attachArtifactTool = defineTool({
+  name: 'kiwi.attach_artifact',
+  description: 'Attach an artifact (file, screenshot, log) to a test execution',
+  category: 'Reporting',
+  inputSchema: attachArtifactSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (args, { services }) => services.testExecutionService.attachArtifact(args)
+});
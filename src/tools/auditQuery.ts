@@ -0,0 +1,93 @@
+// kiwi.audit_query tool for Kiwi TCMS MCP Server
+
+import { KiwiValidationError } from '../utils/errors.js';
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+
+export const auditQuerySchema = {
+  type: 'object',
+  properties: {
+    entity_type: {
+      type: 'string',
+      enum: ['product', 'version', 'plan', 'case', 'run', 'execution', 'build', 'environment', 'environment_property'],
+      description: 'Only entries that touched an object of this type'
+    },
+    entity_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Only entries that touched the object with this ID (combine with entity_type)'
+    },
+    tool: {
+      type: 'string',
+      description: 'Only calls of this tool, e.g. kiwi.execute_case'
+    },
+    instance: {
+      type: 'string',
+      description: 'Only calls against this Kiwi TCMS instance'
+    },
+    session: {
+      type: 'string',
+      description: 'Only calls from this MCP session ("stdio" for the stdio transport)'
+    },
+    outcome: {
+      type: 'string',
+      enum: ['success', 'error'],
+      description: 'Only successful or only failed calls'
+    },
+    since: {
+      type: 'string',
+      minLength: 1,
+      description: 'Only entries at or after this ISO 8601 time'
+    },
+    until: {
+      type: 'string',
+      minLength: 1,
+      description: 'Only entries before this ISO 8601 time'
+    },
+    limit: {
+      type: 'integer',
+      minimum: 1,
+      maximum: 1000,
+      description: 'Maximum number of entries, newest first (default: 50)'
+    }
+  },
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const auditQueryTool = defineTool({
+  name: 'kiwi.audit_query',
+  description: 'Search the audit log of mutating tool calls by entity, tool, session, outcome or time range, newest first',
+  category: 'Diagnostics',
+  inputSchema: auditQuerySchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  instanceScoped: false,
+  handler: async (args, { audit }) => {
+    if (!audit.enabled) {
+      throw new KiwiValidationError('The audit log is disabled on this server', {
+        hint: 'Set KIWI_AUDIT_LOG to a file path to record mutating tool calls.'
+      });
+    }
+
+    const fieldErrors: Record<string, string[]> = {};
+    for (const field of ['since', 'until'] as const) {
+      const value = args[field];
+      if (value !== undefined && Number.isNaN(Date.parse(value))) {
+        fieldErrors[field] = ['must be an ISO 8601 date or date-time'];
+      }
+    }
+    if (Object.keys(fieldErrors).length > 0) {
+      throw new KiwiValidationError(`Invalid time range: ${Object.keys(fieldErrors).join(', ')} must be ISO 8601`, {
+        fieldErrors,
+        hint: 'Pass times like 2024-05-01 or 2024-05-01T12:00:00Z.'
+      });
+    }
+
+    const entries = await audit.query(args);
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ count: entries.length, entries }, null, 2)
+      }]
+    };
+  }
+});
@@ -0,0 +1,38 @@
+// kiwi.cache_stats tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+
+export const cacheStatsSchema = {
+  type: 'object',
+  properties: {
+    clear: {
+      type: 'boolean',
+      description: 'Drop every cached entry after reading the statistics (default: false)'
+    }
+  },
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const cacheStatsTool = defineTool({
+  name: 'kiwi.cache_stats',
+  description: 'Show lookup cache hit/miss statistics and per-entity TTLs, optionally clearing the cache',
+  category: 'Diagnostics',
+  inputSchema: cacheStatsSchema,
+  // Clearing only drops this server's cache, never Kiwi TCMS data
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { apiClient, logger }) => {
+    const stats = apiClient.getCacheStats();
+    if (args.clear) {
+      apiClient.clearCache();
+      logger.info('Lookup cache cleared');
+    }
+
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({ instance: apiClient.instance.name, ...stats, cleared: Boolean(args.clear) }, null, 2)
+      }]
+    };
+  }
+});
@@ -0,0 +1,48 @@
+// kiwi.clone_plan tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { dryRun } from './common.js';
+
+export const clonePlanSchema = {
+  type: 'object',
+  properties: {
+    plan_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test plan ID to clone'
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      pattern: '\\S',
+      description: 'Name of the new plan (default: "Copy of <source name>")'
+    },
+    version: {
+      type: 'string',
+      minLength: 1,
+      description: 'Product version name for the new plan (default: the source plan\'s version)'
+    },
+    cases: {
+      type: 'string',
+      enum: ['none', 'link', 'copy'],
+      description: 'What to do with the source plan\'s cases: leave them out, link the same cases (default), or link fresh copies'
+    },
+    set_parent: {
+      type: 'boolean',
+      description: 'Make the source plan the parent of the new plan (default: the new plan keeps the source\'s parent)'
+    },
+    dry_run: dryRun
+  },
+  required: ['plan_id'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const clonePlanTool = defineTool({
+  name: 'kiwi.clone_plan',
+  description: 'Clone a test plan, e.g. into the next release version, linking or copying its test cases',
+  category: 'Authoring',
+  inputSchema: clonePlanSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (args, { services }) => services.testAuthoringService.clonePlan(args)
+});
@@ -0,0 +1,65 @@
+// Shared schema fragments for Kiwi TCMS MCP Server tools
+
+export const cursor = {
+  type: 'string',
+  description: 'Opaque next_cursor from a previous call; must be reused with the same filters'
+} as const;
+
+export const testSteps = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        minLength: 1,
+        pattern: '\\S',
+        description: 'Test action/step description'
+      },
+      expected: {
+        type: 'string',
+        minLength: 1,
+        pattern: '\\S',
+        description: 'Expected result for this step'
+      }
+    },
+    required: ['action', 'expected'],
+    additionalProperties: false
+  },
+  minItems: 1
+} as const;
+
+export const environmentProperties = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: {
+        type: 'string',
+        minLength: 1,
+        pattern: '\\S',
+        description: 'Property name, e.g. os, browser or device'
+      },
+      value: {
+        type: 'string',
+        minLength: 1,
+        pattern: '\\S',
+        description: 'Property value, e.g. Linux'
+      }
+    },
+    required: ['name', 'value'],
+    additionalProperties: false
+  }
+} as const;
+
+export const artifactType = {
+  type: 'string',
+  enum: ['log', 'screenshot', 'artifact']
+} as const;
+
+export const JIRA_ISSUE_KEY = '^[A-Z][A-Z0-9]*-[0-9]+$';
+
+export const dryRun = {
+  type: 'boolean',
+  description: 'Return the Kiwi TCMS writes this call would make, with field-level changes for updates, without writing anything (default: false)'
+} as const;
@@ -0,0 +1,39 @@
+// kiwi.create_build tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { dryRun } from './common.js';
+
+export const createBuildSchema = {
+  type: 'object',
+  properties: {
+    product_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Product ID the build belongs to'
+    },
+    version: {
+      type: 'string',
+      minLength: 1,
+      description: 'Product version name to add the build to'
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      pattern: '\\S',
+      description: 'Build name, e.g. 2.1.0-rc1'
+    },
+    dry_run: dryRun
+  },
+  required: ['product_id', 'version', 'name'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const createBuildTool = defineTool({
+  name: 'kiwi.create_build',
+  description: 'Add a new build to a product version',
+  category: 'Releases',
+  inputSchema: createBuildSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (args, { services }) => services.productManagementService.createBuild(args)
+});
@@ -0,0 +1,63 @@
+// kiwi.create_case tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { testSteps, dryRun } from './common.js';
+
+export const createCaseSchema = {
+  type: 'object',
+  properties: {
+    product_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Product ID to create the test case for'
+    },
+    plan_id: {
+      type: ['integer', 'null'],
+      minimum: 1,
+      description: 'Test plan of the same product to add the new case to'
+    },
+    summary: {
+      type: 'string',
+      minLength: 1,
+      pattern: '\\S',
+      description: 'Test case summary/title'
+    },
+    preconds: {
+      type: ['string', 'null'],
+      description: 'Test preconditions'
+    },
+    steps: {
+      ...testSteps,
+      description: 'Array of test steps'
+    },
+    priority: {
+      type: 'string',
+      description: 'Test case priority (as configured on the Kiwi TCMS server)'
+    },
+    component: {
+      type: ['string', 'null'],
+      description: 'Component/category name'
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Array of tags for the test case'
+    },
+    dry_run: dryRun
+  },
+  required: ['product_id', 'summary', 'steps', 'priority'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const createCaseTool = defineTool({
+  name: 'kiwi.create_case',
+  description: 'Create a new test case with steps, priority, and metadata',
+  category: 'Authoring',
+  inputSchema: createCaseSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  dynamicEnums: {
+    priority: client => client.getPriorityNames()
+  },
+  handler: (args, { services }) => services.testAuthoringService.createCase(args)
+});
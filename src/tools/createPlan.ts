@@ -0,0 +1,59 @@
+// kiwi.create_plan tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { dryRun } from './common.js';
+
+export const createPlanSchema = {
+  type: 'object',
+  properties: {
+    product_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Product ID to create the test plan for'
+    },
+    name: {
+      type: 'string',
+      minLength: 1,
+      pattern: '\\S',
+      description: 'Test plan name'
+    },
+    version: {
+      type: 'string',
+      minLength: 1,
+      description: 'Product version name, e.g. 2.0 (must exist for the product)'
+    },
+    type: {
+      type: 'string',
+      description: 'Plan type (as configured on the Kiwi TCMS server)'
+    },
+    parent_id: {
+      type: ['integer', 'null'],
+      minimum: 1,
+      description: 'Parent test plan ID'
+    },
+    text: {
+      type: ['string', 'null'],
+      description: 'Plan document/description'
+    },
+    is_active: {
+      type: 'boolean',
+      description: 'Whether the plan is active (default: true)'
+    },
+    dry_run: dryRun
+  },
+  required: ['product_id', 'name', 'version', 'type'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const createPlanTool = defineTool({
+  name: 'kiwi.create_plan',
+  description: 'Create a new test plan for a product version, optionally under a parent plan',
+  category: 'Authoring',
+  inputSchema: createPlanSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  dynamicEnums: {
+    type: client => client.getPlanTypeNames()
+  },
+  handler: (args, { services }) => services.testAuthoringService.createPlan(args)
+});
@@ -0,0 +1,58 @@
+// kiwi.create_run tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { dryRun, environmentProperties } from './common.js';
+
+export const createRunSchema = {
+  type: 'object',
+  properties: {
+    plan_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test plan ID to create run for'
+    },
+    build: {
+      type: 'string',
+      minLength: 1,
+      pattern: '\\S',
+      description: 'Build name; created under the version if it doesn\'t exist yet'
+    },
+    version: {
+      type: ['string', 'null'],
+      description: 'Product version name the build belongs to (default: the plan\'s version)'
+    },
+    environment: {
+      type: 'string',
+      minLength: 1,
+      pattern: '\\S',
+      description: 'Test environment name (e.g., "Windows-Chrome", "Linux-Firefox"); created if it doesn\'t exist yet'
+    },
+    environment_properties: {
+      ...environmentProperties,
+      description: 'Key/value properties of the environment (OS, browser, device, ...); missing ones are added to it'
+    },
+    assignee: {
+      type: ['string', 'null'],
+      description: 'Username of the default assignee for test executions'
+    },
+    case_ids: {
+      type: 'array',
+      items: { type: 'integer', minimum: 1 },
+      minItems: 1,
+      description: 'Array of test case IDs to include in the run'
+    },
+    dry_run: dryRun
+  },
+  required: ['plan_id', 'build', 'environment', 'case_ids'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const createRunTool = defineTool({
+  name: 'kiwi.create_run',
+  description: 'Create a new test run for a test plan with specified test cases',
+  category: 'Execution',
+  inputSchema: createRunSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (args, { services }) => services.testExecutionService.createRun(args)
+});
@@ -0,0 +1,34 @@
+// kiwi.create_version tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { dryRun } from './common.js';
+
+export const createVersionSchema = {
+  type: 'object',
+  properties: {
+    product_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Product ID to add the version to'
+    },
+    value: {
+      type: 'string',
+      minLength: 1,
+      pattern: '\\S',
+      description: 'Version name, e.g. 2.1'
+    },
+    dry_run: dryRun
+  },
+  required: ['product_id', 'value'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const createVersionTool = defineTool({
+  name: 'kiwi.create_version',
+  description: 'Add a new version to a product',
+  category: 'Releases',
+  inputSchema: createVersionSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  handler: (args, { services }) => services.productManagementService.createVersion(args)
+});
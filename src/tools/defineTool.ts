@@ -0,0 +1,12 @@
+// Tool module helper for Kiwi TCMS MCP Server
+
+import { KiwiToolModule } from '../types/index.js';
+import { JsonSchema } from '../utils/schema.js';
+
+/**
+ * Declare a tool. Does nothing at runtime; it lets TypeScript type the
+ * handler's arguments from the `as const` input schema.
+ */
+export function defineTool<S extends JsonSchema>(tool: KiwiToolModule<S>): KiwiToolModule<S> {
+  return tool;
+}
@@ -0,0 +1,84 @@
+// kiwi.execute_case tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { statusNamesWithAliases } from '../utils/statuses.js';
+import { defineTool } from './defineTool.js';
+import { artifactType, JIRA_ISSUE_KEY, dryRun } from './common.js';
+
+export const executeCaseSchema = {
+  type: 'object',
+  properties: {
+    run_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test run ID containing the case'
+    },
+    case_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test case ID to execute'
+    },
+    status: {
+      type: 'string',
+      description: 'Execution result status (as configured on the Kiwi TCMS server)'
+    },
+    actual_result: {
+      type: ['string', 'null'],
+      description: 'Actual result description or failure details'
+    },
+    evidence: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: {
+            ...artifactType,
+            description: 'Type of evidence'
+          },
+          uri: {
+            type: 'string',
+            description: 'URI to the evidence file (http://, https://, s3://, file://)'
+          },
+          title: {
+            type: ['string', 'null'],
+            description: 'Optional title/description for the evidence'
+          }
+        },
+        required: ['type', 'uri'],
+        additionalProperties: false
+      },
+      description: 'Array of evidence attachments'
+    },
+    duration_seconds: {
+      type: 'number',
+      minimum: 0,
+      description: 'Execution duration in seconds'
+    },
+    rerun: {
+      type: 'boolean',
+      description: 'Whether this is a rerun of a previously executed case'
+    },
+    jira_issue_key: {
+      type: ['string', 'null'],
+      pattern: JIRA_ISSUE_KEY,
+      description: 'Jira issue key to link (e.g., "PROJ-123")'
+    },
+    dry_run: dryRun
+  },
+  required: ['run_id', 'case_id', 'status'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const executeCaseTool = defineTool({
+  name: 'kiwi.execute_case',
+  description: 'Mark a test case as executed with results, evidence, and optional Jira linking',
+  category: 'Execution',
+  inputSchema: executeCaseSchema,
+  // Overwrites the execution's previous result
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  dynamicEnums: {
+    // PASS/FAIL stay valid on servers that name them PASSED/FAILED
+    status: client => statusNamesWithAliases(client.getStatusNames())
+  },
+  handler: (args, { services }) => services.testExecutionService.executeCase(args)
+});
@@ -0,0 +1,26 @@
+// kiwi.get_case tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+
+export const getCaseSchema = {
+  type: 'object',
+  properties: {
+    case_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test case ID to retrieve'
+    }
+  },
+  required: ['case_id'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const getCaseTool = defineTool({
+  name: 'kiwi.get_case',
+  description: 'Get detailed information about a specific test case including steps',
+  category: 'Discovery',
+  inputSchema: getCaseSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testManagementService.getCase(args)
+});
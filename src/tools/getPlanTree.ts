@@ -0,0 +1,26 @@
+// kiwi.get_plan_tree tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+
+export const getPlanTreeSchema = {
+  type: 'object',
+  properties: {
+    plan_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test plan ID whose hierarchy to show'
+    }
+  },
+  required: ['plan_id'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const getPlanTreeTool = defineTool({
+  name: 'kiwi.get_plan_tree',
+  description: 'Show the parent chain and all child plans of a test plan',
+  category: 'Discovery',
+  inputSchema: getPlanTreeSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testManagementService.getPlanTree(args)
+});
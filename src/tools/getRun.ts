@@ -0,0 +1,26 @@
+// kiwi.get_run tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+
+export const getRunSchema = {
+  type: 'object',
+  properties: {
+    run_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test run ID to retrieve'
+    }
+  },
+  required: ['run_id'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const getRunTool = defineTool({
+  name: 'kiwi.get_run',
+  description: 'Get detailed information about a test run including all executions',
+  category: 'Execution',
+  inputSchema: getRunSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testExecutionService.getRun(args)
+});
@@ -0,0 +1,91 @@
+// Built-in tools for Kiwi TCMS MCP Server
+
+import { KiwiToolModule } from '../types/index.js';
+import { listProductsTool } from './listProducts.js';
+import { listPlansTool } from './listPlans.js';
+import { listCasesTool } from './listCases.js';
+import { getCaseTool } from './getCase.js';
+import { createRunTool } from './createRun.js';
+import { addCasesToRunTool } from './addCasesToRun.js';
+import { getRunTool } from './getRun.js';
+import { listRunsTool } from './listRuns.js';
+import { executeCaseTool } from './executeCase.js';
+import { runReportTool } from './runReport.js';
+import { attachArtifactTool } from './attachArtifact.js';
+import { linkJiraTool } from './linkJira.js';
+import { createCaseTool } from './createCase.js';
+import { updateCaseTool } from './updateCase.js';
+import { createPlanTool } from './createPlan.js';
+import { updatePlanTool } from './updatePlan.js';
+import { clonePlanTool } from './clonePlan.js';
+import { getPlanTreeTool } from './getPlanTree.js';
+import { listVersionsTool } from './listVersions.js';
+import { createVersionTool } from './createVersion.js';
+import { listBuildsTool } from './listBuilds.js';
+import { createBuildTool } from './createBuild.js';
+import { updateBuildTool } from './updateBuild.js';
+import { listInstancesTool } from './listInstances.js';
+import { cacheStatsTool } from './cacheStats.js';
+import { auditQueryTool } from './auditQuery.js';
+import { serverInfoTool } from './serverInfo.js';
+
+export { defineTool } from './defineTool.js';
+export { loadToolPlugins } from './plugins.js';
+export * from './listProducts.js';
+export * from './listPlans.js';
+export * from './listCases.js';
+export * from './getCase.js';
+export * from './createRun.js';
+export * from './addCasesToRun.js';
+export * from './getRun.js';
+export * from './listRuns.js';
+export * from './executeCase.js';
+export * from './runReport.js';
+export * from './attachArtifact.js';
+export * from './linkJira.js';
+export * from './createCase.js';
+export * from './updateCase.js';
+export * from './createPlan.js';
+export * from './updatePlan.js';
+export * from './clonePlan.js';
+export * from './getPlanTree.js';
+export * from './listVersions.js';
+export * from './createVersion.js';
+export * from './listBuilds.js';
+export * from './createBuild.js';
+export * from './updateBuild.js';
+export * from './listInstances.js';
+export * from './cacheStats.js';
+export * from './auditQuery.js';
+export * from './serverInfo.js';
+
+/** Registered in this order, which is also the tools/list order. */
+export const BUILTIN_TOOLS: KiwiToolModule<any>[] = [
+  listProductsTool,
+  listPlansTool,
+  listCasesTool,
+  getCaseTool,
+  createRunTool,
+  addCasesToRunTool,
+  getRunTool,
+  listRunsTool,
+  executeCaseTool,
+  runReportTool,
+  attachArtifactTool,
+  linkJiraTool,
+  createCaseTool,
+  updateCaseTool,
+  createPlanTool,
+  updatePlanTool,
+  clonePlanTool,
+  getPlanTreeTool,
+  listVersionsTool,
+  createVersionTool,
+  listBuildsTool,
+  createBuildTool,
+  updateBuildTool,
+  listInstancesTool,
+  cacheStatsTool,
+  auditQueryTool,
+  serverInfoTool
+];
@@ -0,0 +1,37 @@
+// kiwi.link_jira tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { JIRA_ISSUE_KEY } from './common.js';
+
+export const linkJiraSchema = {
+  type: 'object',
+  properties: {
+    execution_id: {
+      type: ['integer', 'null'],
+      minimum: 1,
+      description: 'Test execution ID to link (optional if case_id provided)'
+    },
+    case_id: {
+      type: ['integer', 'null'],
+      minimum: 1,
+      description: 'Test case ID to link (optional if execution_id provided)'
+    },
+    issue_key: {
+      type: 'string',
+      pattern: JIRA_ISSUE_KEY,
+      description: 'Jira issue key (e.g., "PROJ-123")'
+    }
+  },
+  required: ['issue_key'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const linkJiraTool = defineTool({
+  name: 'kiwi.link_jira',
+  description: 'Link a Jira issue to a test execution or test case',
+  category: 'Reporting',
+  inputSchema: linkJiraSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+  handler: (args, { services }) => services.testExecutionService.linkJira(args)
+});
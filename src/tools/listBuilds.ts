@@ -0,0 +1,42 @@
+// kiwi.list_builds tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { cursor } from './common.js';
+
+export const listBuildsSchema = {
+  type: 'object',
+  properties: {
+    product_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Product ID to list builds for'
+    },
+    version: {
+      type: ['string', 'null'],
+      description: 'Only builds of this product version (by name)'
+    },
+    is_active: {
+      type: ['boolean', 'null'],
+      description: 'Only active (true) or inactive (false) builds'
+    },
+    limit: {
+      type: 'integer',
+      description: 'Maximum number of builds to return (default: 50)',
+      minimum: 1,
+      maximum: 1000
+    },
+    cursor
+  },
+  required: ['product_id'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const listBuildsTool = defineTool({
+  name: 'kiwi.list_builds',
+  description: 'List the builds of a product, per version, with their active flag',
+  category: 'Releases',
+  inputSchema: listBuildsSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.productManagementService.listBuilds(args)
+});
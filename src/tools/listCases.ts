@@ -0,0 +1,76 @@
+// kiwi.list_cases tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { cursor } from './common.js';
+
+export const listCasesSchema = {
+  type: 'object',
+  properties: {
+    plan_id: {
+      type: ['integer', 'null'],
+      minimum: 1,
+      description: 'Filter by test plan ID'
+    },
+    product_id: {
+      type: ['integer', 'null'],
+      minimum: 1,
+      description: 'Filter by product ID (searches every plan of the product)'
+    },
+    tags: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Filter by tag names'
+    },
+    tag_match: {
+      type: 'string',
+      enum: ['any', 'all'],
+      description: 'Whether a case needs any (default) or all of the given tags'
+    },
+    component: {
+      type: ['string', 'null'],
+      description: 'Filter by component name (within product_id when given)'
+    },
+    priority: {
+      type: 'string',
+      description: 'Filter by priority (as configured on the Kiwi TCMS server)'
+    },
+    is_automated: {
+      type: ['boolean', 'null'],
+      description: 'Filter by automation flag'
+    },
+    case_status: {
+      type: 'string',
+      description: 'Filter by case status, e.g. CONFIRMED'
+    },
+    author: {
+      type: ['string', 'null'],
+      description: 'Filter by author username'
+    },
+    text: {
+      type: ['string', 'null'],
+      description: 'Filter by text in summary or description'
+    },
+    limit: {
+      type: 'integer',
+      description: 'Maximum number of cases to return (default: 100)',
+      minimum: 1,
+      maximum: 1000
+    },
+    cursor
+  },
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const listCasesTool = defineTool({
+  name: 'kiwi.list_cases',
+  description: 'List test cases with various filtering options',
+  category: 'Discovery',
+  inputSchema: listCasesSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  dynamicEnums: {
+    priority: client => client.getPriorityNames(),
+    case_status: client => client.getCaseStatusNames()
+  },
+  handler: (args, { services }) => services.testManagementService.listCases(args)
+});
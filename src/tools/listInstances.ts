@@ -0,0 +1,25 @@
+// kiwi.list_instances tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+
+export const listInstancesSchema = {
+  type: 'object',
+  properties: {},
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const listInstancesTool = defineTool({
+  name: 'kiwi.list_instances',
+  description: 'List the configured Kiwi TCMS instances and whether each is reachable',
+  category: 'Diagnostics',
+  inputSchema: listInstancesSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  instanceScoped: false,
+  handler: async (args, { instances }) => ({
+    content: [{
+      type: 'text',
+      text: JSON.stringify({ default: instances.defaultInstance, instances: await instances.listInstances() }, null, 2)
+    }]
+  })
+});
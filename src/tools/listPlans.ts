@@ -0,0 +1,38 @@
+// kiwi.list_plans tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { cursor } from './common.js';
+
+export const listPlansSchema = {
+  type: 'object',
+  properties: {
+    product_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Product ID to list plans for'
+    },
+    version: {
+      type: ['string', 'null'],
+      description: 'Filter by product version name'
+    },
+    limit: {
+      type: 'integer',
+      description: 'Maximum number of plans to return (default: 50)',
+      minimum: 1,
+      maximum: 1000
+    },
+    cursor
+  },
+  required: ['product_id'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const listPlansTool = defineTool({
+  name: 'kiwi.list_plans',
+  description: 'List test plans for a specific product with optional version filtering',
+  category: 'Discovery',
+  inputSchema: listPlansSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testManagementService.listPlans(args)
+});
@@ -0,0 +1,38 @@
+// kiwi.list_products tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { cursor } from './common.js';
+
+export const listProductsSchema = {
+  type: 'object',
+  properties: {
+    query: {
+      type: 'object',
+      properties: {
+        name_contains: {
+          type: 'string',
+          description: 'Filter products by name containing this string'
+        },
+        limit: {
+          type: 'integer',
+          description: 'Maximum number of products to return (default: 50, max: 1000)',
+          minimum: 1,
+          maximum: 1000
+        },
+        cursor
+      },
+      additionalProperties: false
+    }
+  },
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const listProductsTool = defineTool({
+  name: 'kiwi.list_products',
+  description: 'List all available Kiwi TCMS products with optional filtering',
+  category: 'Discovery',
+  inputSchema: listProductsSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testManagementService.listProducts(args)
+});
@@ -0,0 +1,41 @@
+// kiwi.list_runs tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { cursor, environmentProperties } from './common.js';
+
+export const listRunsSchema = {
+  type: 'object',
+  properties: {
+    plan_id: {
+      type: ['integer', 'null'],
+      minimum: 1,
+      description: 'Filter by test plan ID'
+    },
+    environment: {
+      type: ['string', 'null'],
+      description: 'Filter by environment name'
+    },
+    environment_properties: {
+      ...environmentProperties,
+      description: 'Only runs whose environment has all of these properties, e.g. [{"name": "os", "value": "Linux"}]'
+    },
+    limit: {
+      type: 'integer',
+      description: 'Maximum number of runs to return (default: 50)',
+      minimum: 1,
+      maximum: 1000
+    },
+    cursor
+  },
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const listRunsTool = defineTool({
+  name: 'kiwi.list_runs',
+  description: 'List test runs, optionally by plan, environment or environment properties',
+  category: 'Execution',
+  inputSchema: listRunsSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testExecutionService.listRuns(args)
+});
@@ -0,0 +1,34 @@
+// kiwi.list_versions tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { cursor } from './common.js';
+
+export const listVersionsSchema = {
+  type: 'object',
+  properties: {
+    product_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Product ID to list versions for'
+    },
+    limit: {
+      type: 'integer',
+      description: 'Maximum number of versions to return (default: 50)',
+      minimum: 1,
+      maximum: 1000
+    },
+    cursor
+  },
+  required: ['product_id'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const listVersionsTool = defineTool({
+  name: 'kiwi.list_versions',
+  description: 'List the versions of a product',
+  category: 'Releases',
+  inputSchema: listVersionsSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.productManagementService.listVersions(args)
+});
@@ -0,0 +1,69 @@
+// Tool plugin loading for Kiwi TCMS MCP Server
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { KiwiToolModule } from '../types/index.js';
+import { serverConfig } from '../utils/config.js';
+
+export interface LoadedPluginTool {
+  specifier: string;
+  tool: KiwiToolModule;
+}
+
+const TOOL_NAME = /^[a-z][a-z0-9_-]*(\.[a-z0-9_-]+)*$/i;
+
+/** Plugin modules from tools.plugins / KIWI_TOOL_PLUGINS (paths or package names). */
+export function pluginSpecifiers(): string[] {
+  return serverConfig().tools.plugins;
+}
+
+// Paths are relative to the working directory; anything else is imported
+// as a package
+function resolveSpecifier(specifier: string): string {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return pathToFileURL(path.resolve(specifier)).href;
+  }
+  return specifier;
+}
+
+function checkPluginTool(tool: any, specifier: string): KiwiToolModule {
+  const label = typeof tool?.name === 'string' ? tool.name : '(unnamed)';
+  const problem =
+    !tool || typeof tool !== 'object' ? 'is not an object' :
+    typeof tool.name !== 'string' || !TOOL_NAME.test(tool.name) ? `has an invalid name ${JSON.stringify(tool.name)}` :
+    typeof tool.description !== 'string' ? 'has no description' :
+    tool.inputSchema?.type !== 'object' ? 'needs an inputSchema of type object' :
+    typeof tool.handler !== 'function' ? 'has no handler function' :
+    undefined;
+
+  if (problem) {
+    throw new Error(`Tool plugin ${specifier}: tool ${label} ${problem}`);
+  }
+  return { category: 'Plugins', annotations: {}, ...tool };
+}
+
+/**
+ * Import each plugin module and collect its tools. A module exports one
+ * tool or an array of them, as `tools` or as its default export.
+ */
+export async function loadToolPlugins(specifiers: string[] = pluginSpecifiers()): Promise<LoadedPluginTool[]> {
+  const tools: LoadedPluginTool[] = [];
+
+  for (const specifier of specifiers) {
+    let module: any;
+    try {
+      module = await import(resolveSpecifier(specifier));
+    } catch (error) {
+      throw new Error(`Failed to load tool plugin ${specifier}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const exported = module.tools ?? module.default;
+    const moduleTools = Array.isArray(exported) ? exported : exported === undefined ? [] : [exported];
+    if (moduleTools.length === 0) {
+      throw new Error(`Tool plugin ${specifier} exports no tools (expected a default export or \`tools\`)`);
+    }
+    tools.push(...moduleTools.map(tool => ({ specifier, tool: checkPluginTool(tool, specifier) })));
+  }
+
+  return tools;
+}
@@ -0,0 +1,31 @@
+// kiwi.run_report tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+
+export const runReportSchema = {
+  type: 'object',
+  properties: {
+    run_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test run ID to generate report for'
+    },
+    format: {
+      type: 'string',
+      enum: ['json', 'junit', 'html'],
+      description: 'Report format'
+    }
+  },
+  required: ['run_id', 'format'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const runReportTool = defineTool({
+  name: 'kiwi.run_report',
+  description: 'Generate a test run report in various formats',
+  category: 'Reporting',
+  inputSchema: runReportSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testExecutionService.runReport(args)
+});
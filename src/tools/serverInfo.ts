@@ -0,0 +1,39 @@
+// kiwi.server_info tool for Kiwi TCMS MCP Server
+
+import { SERVER_NAME, SERVER_VERSION, loadedServerConfig } from '../utils/config.js';
+import { Logger } from '../utils/logger.js';
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+
+export const serverInfoSchema = {
+  type: 'object',
+  properties: {},
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const serverInfoTool = defineTool({
+  name: 'kiwi.server_info',
+  description: 'Show the server version and its effective configuration (credentials redacted), with the source of every non-default setting',
+  category: 'Diagnostics',
+  inputSchema: serverInfoSchema,
+  annotations: { readOnlyHint: true, idempotentHint: true },
+  instanceScoped: false,
+  handler: (args, { instances }) => {
+    const { config, file, profile, sources } = loadedServerConfig();
+    return {
+      content: [{
+        type: 'text',
+        text: JSON.stringify({
+          name: SERVER_NAME,
+          version: SERVER_VERSION,
+          node: process.version,
+          config_file: file ?? null,
+          profile: profile ?? null,
+          default_instance: instances.defaultInstance,
+          config: Logger.redactData(config),
+          sources
+        }, null, 2)
+      }]
+    };
+  }
+});
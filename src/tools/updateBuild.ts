@@ -0,0 +1,47 @@
+// kiwi.update_build tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { dryRun } from './common.js';
+
+export const updateBuildSchema = {
+  type: 'object',
+  properties: {
+    build_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Build ID to update'
+    },
+    patch: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          minLength: 1,
+          pattern: '\\S',
+          description: 'New build name'
+        },
+        is_active: {
+          type: 'boolean',
+          description: 'false retires the build so it is no longer offered for new runs'
+        }
+      },
+      additionalProperties: false,
+      minProperties: 1,
+      description: 'Fields to update (only specified fields will be changed)'
+    },
+    dry_run: dryRun
+  },
+  required: ['build_id', 'patch'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const updateBuildTool = defineTool({
+  name: 'kiwi.update_build',
+  description: 'Rename a build or mark it active/inactive',
+  category: 'Releases',
+  inputSchema: updateBuildSchema,
+  // Replaces the fields it is given
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.productManagementService.updateBuild(args)
+});
@@ -0,0 +1,52 @@
+// kiwi.update_case tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { testSteps, dryRun } from './common.js';
+
+export const updateCaseSchema = {
+  type: 'object',
+  properties: {
+    case_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test case ID to update'
+    },
+    patch: {
+      type: 'object',
+      properties: {
+        summary: {
+          type: 'string',
+          minLength: 1,
+          pattern: '\\S',
+          description: 'New summary/title'
+        },
+        steps: {
+          ...testSteps,
+          description: 'Updated test steps'
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Updated tags'
+        }
+      },
+      additionalProperties: true,
+      minProperties: 1,
+      description: 'Fields to update (only specified fields will be changed)'
+    },
+    dry_run: dryRun
+  },
+  required: ['case_id', 'patch'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const updateCaseTool = defineTool({
+  name: 'kiwi.update_case',
+  description: 'Update an existing test case with new information',
+  category: 'Authoring',
+  inputSchema: updateCaseSchema,
+  // Replaces the fields it is given
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testAuthoringService.updateCase(args)
+});
@@ -0,0 +1,69 @@
+// kiwi.update_plan tool for Kiwi TCMS MCP Server
+
+import { JsonSchema } from '../utils/schema.js';
+import { defineTool } from './defineTool.js';
+import { dryRun } from './common.js';
+
+export const updatePlanSchema = {
+  type: 'object',
+  properties: {
+    plan_id: {
+      type: 'integer',
+      minimum: 1,
+      description: 'Test plan ID to update'
+    },
+    patch: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          minLength: 1,
+          pattern: '\\S',
+          description: 'New plan name'
+        },
+        text: {
+          type: 'string',
+          description: 'New plan document/description'
+        },
+        version: {
+          type: 'string',
+          minLength: 1,
+          description: 'Product version name to move the plan to'
+        },
+        type: {
+          type: 'string',
+          description: 'Plan type (as configured on the Kiwi TCMS server)'
+        },
+        parent_id: {
+          type: ['integer', 'null'],
+          minimum: 1,
+          description: 'New parent plan ID, or null to detach the plan from its parent'
+        },
+        is_active: {
+          type: 'boolean',
+          description: 'Activate or deactivate the plan'
+        },
+        extra_link: {
+          type: 'string',
+          description: 'External link shown on the plan'
+        }
+      },
+      additionalProperties: false,
+      minProperties: 1,
+      description: 'Fields to update (only specified fields will be changed)'
+    },
+    dry_run: dryRun
+  },
+  required: ['plan_id', 'patch'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export const updatePlanTool = defineTool({
+  name: 'kiwi.update_plan',
+  description: 'Update an existing test plan: name, text, version, type, parent plan or active flag',
+  category: 'Authoring',
+  inputSchema: updatePlanSchema,
+  // Replaces the fields it is given
+  annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  handler: (args, { services }) => services.testAuthoringService.updatePlan(args)
+});
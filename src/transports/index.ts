@@ -0,0 +1,31 @@
+// Transports index for Kiwi TCMS MCP Server
+
+import { AxiosInstance } from 'axios';
+import { KiwiTransport, KiwiTransportKind } from '../types/index.js';
+import { RestTransport } from './restTransport.js';
+import { JsonRpcTransport } from './jsonRpcTransport.js';
+import { MockTransport, loadMockFixture } from './mockTransport.js';
+
+export { RestTransport } from './restTransport.js';
+export { JsonRpcTransport } from './jsonRpcTransport.js';
+export { MockTransport, loadMockFixture } from './mockTransport.js';
+
+export const TRANSPORT_KINDS: KiwiTransportKind[] = ['rest', 'jsonrpc', 'mock'];
+
+export interface TransportOptions {
+  username?: string;
+  mockFixture?: string;
+}
+
+export function createTransport(kind: KiwiTransportKind, http: AxiosInstance, options: TransportOptions = {}): KiwiTransport {
+  switch (kind) {
+    case 'rest':
+      return new RestTransport(http);
+    case 'jsonrpc':
+      return new JsonRpcTransport(http, options.username);
+    case 'mock':
+      return options.mockFixture ? new MockTransport(loadMockFixture(options.mockFixture)) : new MockTransport();
+    default:
+      throw new Error(`Unknown Kiwi TCMS transport: ${kind}`);
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { JsonRpcTransport } from './jsonRpcTransport.js';
+
+// Records each JSON-RPC call and answers it with `result`
+function recordingHttp(result: unknown) {
+  const calls: Array<{ method: string; config?: AxiosRequestConfig }> = [];
+  const http = {
+    post: async (_url: string, body: { method: string; id: number }, config?: AxiosRequestConfig) => {
+      calls.push({ method: body.method, config });
+      return { data: { jsonrpc: '2.0', id: body.id, result } };
+    }
+  };
+  return { calls, transport: new JsonRpcTransport(http as unknown as AxiosInstance) };
+}
+
+describe('JsonRpcTransport retries', () => {
+  it('marks read methods as safe to replay', async () => {
+    const { calls, transport } = recordingHttp([]);
+    await transport.getTestRuns({});
+    await transport.getEnvironmentProperties([1]);
+    assert.deepEqual(calls.map(call => [call.method, call.config?.idempotent]), [
+      ['TestRun.filter', true],
+      ['Environment.properties', true]
+    ]);
+  });
+
+  it('leaves writes unmarked', async () => {
+    const { calls, transport } = recordingHttp({ id: 1 });
+    await transport.createTestRun({ summary: 'Nightly' });
+    await transport.addEnvironmentProperty(1, 'os', 'Linux');
+    assert.deepEqual(calls.map(call => [call.method, call.config?.idempotent]), [
+      ['TestRun.create', false],
+      ['Environment.add_property', false]
+    ]);
+  });
+});
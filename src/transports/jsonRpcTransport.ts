@@ -0,0 +1,378 @@
+// JSON-RPC transport for Kiwi TCMS MCP Server
+// Talks to the stock Kiwi TCMS API at /json-rpc/ (TestCase.filter, TestRun.create, ...)
+
+import { AxiosInstance } from 'axios';
+import { orderResults, paginateResults } from '../utils/pagination.js';
+import {
+  KiwiApiError,
+  KiwiNotFoundError,
+  KiwiValidationError,
+  createKiwiApiError,
+  extractFieldErrors
+} from '../utils/errors.js';
+import {
+  KiwiTransport,
+  KiwiProduct,
+  KiwiVersion,
+  KiwiTestPlan,
+  KiwiTestCase,
+  KiwiTestRun,
+  KiwiTestExecution,
+  KiwiBuild,
+  KiwiEnvironment,
+  KiwiEnvironmentProperty,
+  KiwiTag,
+  KiwiComponent,
+  KiwiCategory,
+  KiwiCaseLink,
+  KiwiCaseStatus,
+  KiwiPlanType,
+  KiwiUser,
+  KiwiExecutionStatus,
+  KiwiPriority,
+  KiwiErrorCode,
+  PaginatedResponse,
+  PageQuery,
+  ProductQuery,
+  TestPlanQuery,
+  VersionQuery,
+  TestCaseQuery,
+  TestRunQuery,
+  TestExecutionQuery,
+  BuildQuery,
+  EnvironmentQuery,
+  TagQuery,
+  ComponentQuery,
+  CategoryQuery,
+  UserQuery
+} from '../types/index.js';
+
+const JSON_RPC_PATH = 'json-rpc/';
+
+// Methods that only read (TestCase.filter, Environment.properties, TestRun.get_cases, ...)
+const READ_METHOD = /\.(filter|properties|get_[a-z_]+)$/;
+
+interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+interface JsonRpcResponse<T> {
+  jsonrpc: string;
+  id: number;
+  result?: T;
+  error?: JsonRpcError;
+}
+
+export class JsonRpcTransport implements KiwiTransport {
+  readonly kind = 'jsonrpc' as const;
+  readonly serverSidePaging = false;
+  readonly caseFilters = [
+    'plan', 'plans', 'summary', 'tags', 'components', 'priority', 'case_status', 'is_automated', 'author'
+  ] as const;
+  private requestId = 0;
+
+  constructor(private http: AxiosInstance, private username?: string) {}
+
+  private async call<T>(method: string, params: any[] = []): Promise<T> {
+    const response = await this.http.post<JsonRpcResponse<T>>(JSON_RPC_PATH, {
+      jsonrpc: '2.0',
+      method,
+      params,
+      id: ++this.requestId
+    }, {
+      // Reads are safe to replay on transient failures; writes are not
+      idempotent: READ_METHOD.test(method)
+    });
+
+    const body = response.data;
+    if (body.error) {
+      throw this.toKiwiApiError(method, body.error);
+    }
+    return body.result as T;
+  }
+
+  private toKiwiApiError(method: string, error: JsonRpcError): KiwiApiError {
+    const message = error.message || 'Unknown JSON-RPC error';
+    let code: KiwiErrorCode = 'UPSTREAM_ERROR';
+
+    if (/does not exist|not found/i.test(message)) {
+      code = 'NOT_FOUND';
+    } else if (/permission|authenticat|login required/i.test(message)) {
+      code = 'FORBIDDEN';
+    } else if (/already exists|unique/i.test(message)) {
+      code = 'CONFLICT';
+    } else if (error.code === -32602 || /invalid|required|validation/i.test(message)) {
+      code = 'VALIDATION';
+    }
+
+    return createKiwiApiError(code, `${method}: ${message}`, {
+      kiwiResponse: error,
+      fieldErrors: code === 'VALIDATION' ? extractFieldErrors(error.data) : undefined
+    });
+  }
+
+  private async filter<T extends { id: number }>(method: string, query: Record<string, any>, page: PageQuery = {}): Promise<PaginatedResponse<T>> {
+    const items = await this.call<T[]>(`${method}.filter`, [this.compact(query)]);
+    return paginateResults(orderResults(items, page), page.limit, page.offset);
+  }
+
+  private async getById<T>(method: string, label: string, id: number): Promise<T> {
+    const [item] = await this.call<T[]>(`${method}.filter`, [{ id }]);
+    if (!item) {
+      throw new KiwiNotFoundError(`${label} ${id} not found`);
+    }
+    return item;
+  }
+
+  // Keep the first row per ID; joins over related objects repeat rows
+  private unique<T extends { id: number }>(items: T[]): T[] {
+    return [...new Map(items.map(item => [item.id, item])).values()];
+  }
+
+  // Drop unset filters so they don't become `field=None` lookups on the server
+  private compact(query: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined && value !== null && value !== ''));
+  }
+
+  // Products
+  getProducts(params: ProductQuery): Promise<PaginatedResponse<KiwiProduct>> {
+    return this.filter('Product', { name__icontains: params.name }, params);
+  }
+
+  getProduct(id: number): Promise<KiwiProduct> {
+    return this.getById('Product', 'Product', id);
+  }
+
+  // Test Plans
+  getTestPlans(params: TestPlanQuery): Promise<PaginatedResponse<KiwiTestPlan>> {
+    return this.filter('TestPlan', {
+      product: params.product,
+      product_version: params.product_version,
+      name__icontains: params.name,
+      parent: params.parent
+    }, params);
+  }
+
+  getTestPlan(id: number): Promise<KiwiTestPlan> {
+    return this.getById('TestPlan', 'Test Plan', id);
+  }
+
+  createTestPlan(planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan> {
+    return this.call('TestPlan.create', [planData]);
+  }
+
+  updateTestPlan(id: number, planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan> {
+    return this.call('TestPlan.update', [id, planData]);
+  }
+
+  async addCaseToPlan(planId: number, caseId: number): Promise<void> {
+    await this.call('TestPlan.add_case', [planId, caseId]);
+  }
+
+  // Versions
+  getVersions(params: VersionQuery): Promise<PaginatedResponse<KiwiVersion>> {
+    return this.filter('Version', { product: params.product, value: params.value }, params);
+  }
+
+  createVersion(versionData: { value: string; product: number }): Promise<KiwiVersion> {
+    return this.call('Version.create', [versionData]);
+  }
+
+  // Test Cases
+  async getTestCases(params: TestCaseQuery): Promise<PaginatedResponse<KiwiTestCase>> {
+    const cases = await this.call<KiwiTestCase[]>('TestCase.filter', [this.compact({
+      plan: params.plan,
+      plan__in: params.plans,
+      summary__icontains: params.summary,
+      tag__in: params.tags,
+      component__in: params.components,
+      priority: params.priority,
+      case_status: params.case_status,
+      is_automated: params.is_automated,
+      author: params.author
+    })]);
+    return paginateResults(this.unique(cases), params.limit, params.offset);
+  }
+
+  getTestCase(id: number): Promise<KiwiTestCase> {
+    return this.getById('TestCase', 'Test Case', id);
+  }
+
+  createTestCase(caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
+    return this.call('TestCase.create', [caseData]);
+  }
+
+  updateTestCase(id: number, caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
+    return this.call('TestCase.update', [id, caseData]);
+  }
+
+  // Test Runs
+  getTestRuns(params: TestRunQuery): Promise<PaginatedResponse<KiwiTestRun>> {
+    return this.filter('TestRun', {
+      plan: params.plan,
+      summary__icontains: params.summary,
+      environment__in: params.environments
+    }, params);
+  }
+
+  getTestRun(id: number): Promise<KiwiTestRun> {
+    return this.getById('TestRun', 'Test Run', id);
+  }
+
+  createTestRun(runData: Partial<KiwiTestRun>): Promise<KiwiTestRun> {
+    return this.call('TestRun.create', [runData]);
+  }
+
+  // Test Executions
+  getTestExecutions(params: TestExecutionQuery): Promise<PaginatedResponse<KiwiTestExecution>> {
+    return this.filter('TestExecution', { run: params.run, case: params.case, status: params.status }, params);
+  }
+
+  getTestExecution(id: number): Promise<KiwiTestExecution> {
+    return this.getById('TestExecution', 'Test Execution', id);
+  }
+
+  async createTestExecution(executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution> {
+    // Kiwi TCMS has no TestExecution.create; executions are produced by
+    // adding a case to a run, then adjusted with TestExecution.update.
+    const added = await this.call<KiwiTestExecution | KiwiTestExecution[]>('TestRun.add_case', [
+      executionData.run,
+      executionData.case
+    ]);
+    const execution = Array.isArray(added) ? added[0] : added;
+
+    const { run, case: caseId, ...rest } = executionData;
+    const updates = this.compact(rest);
+    if (Object.keys(updates).length === 0) {
+      return execution;
+    }
+    return this.updateTestExecution(execution.id, updates);
+  }
+
+  updateTestExecution(id: number, executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution> {
+    return this.call('TestExecution.update', [id, executionData]);
+  }
+
+  // Builds
+  getBuilds(params: BuildQuery): Promise<PaginatedResponse<KiwiBuild>> {
+    return this.filter('Build', { version: params.version, name: params.name, is_active: params.is_active }, params);
+  }
+
+  getBuild(id: number): Promise<KiwiBuild> {
+    return this.getById('Build', 'Build', id);
+  }
+
+  createBuild(buildData: { name: string; version: number }): Promise<KiwiBuild> {
+    return this.call('Build.create', [buildData]);
+  }
+
+  updateBuild(id: number, buildData: Partial<KiwiBuild>): Promise<KiwiBuild> {
+    return this.call('Build.update', [id, buildData]);
+  }
+
+  // Environments
+  getEnvironments(params: EnvironmentQuery): Promise<PaginatedResponse<KiwiEnvironment>> {
+    return this.filter('Environment', { name: params.name }, params);
+  }
+
+  getEnvironment(id: number): Promise<KiwiEnvironment> {
+    return this.getById('Environment', 'Environment', id);
+  }
+
+  createEnvironment(environmentData: { name: string; description?: string }): Promise<KiwiEnvironment> {
+    return this.call('Environment.create', [environmentData]);
+  }
+
+  getEnvironmentProperties(environmentIds: number[]): Promise<KiwiEnvironmentProperty[]> {
+    return this.call('Environment.properties', [{ environment__in: environmentIds }]);
+  }
+
+  addEnvironmentProperty(environmentId: number, name: string, value: string): Promise<KiwiEnvironmentProperty> {
+    return this.call('Environment.add_property', [environmentId, name, value]);
+  }
+
+  // Tags
+  getTags(params: TagQuery): Promise<PaginatedResponse<KiwiTag>> {
+    return this.filter('Tag', { name: params.name }, params);
+  }
+
+  getTag(id: number): Promise<KiwiTag> {
+    return this.getById('Tag', 'Tag', id);
+  }
+
+  // Components
+  getComponents(params: ComponentQuery): Promise<PaginatedResponse<KiwiComponent>> {
+    return this.filter('Component', { product: params.product, name: params.name }, params);
+  }
+
+  getComponent(id: number): Promise<KiwiComponent> {
+    return this.getById('Component', 'Component', id);
+  }
+
+  // Categories
+  getCategories(params: CategoryQuery): Promise<PaginatedResponse<KiwiCategory>> {
+    return this.filter('Category', { id__in: params.ids, product: params.product }, params);
+  }
+
+  // Case links
+  getCaseTags(caseIds: number[]): Promise<KiwiCaseLink<KiwiTag>[]> {
+    return this.call('Tag.filter', [{ case__in: caseIds }]);
+  }
+
+  async getCaseComponents(caseIds: number[]): Promise<KiwiCaseLink<KiwiComponent>[]> {
+    // Component.filter names the linked case `cases`
+    const rows = await this.call<Array<KiwiComponent & { cases: number }>>('Component.filter', [{ cases__in: caseIds }]);
+    return rows.map(({ cases, ...component }) => ({ ...component, case: cases }));
+  }
+
+  async getCasePlans(caseIds: number[]): Promise<KiwiCaseLink<KiwiTestPlan>[]> {
+    // TestPlan.filter doesn't say which of the cases a plan holds, so ask
+    // once per plan found rather than once per case
+    const plans = this.unique(await this.call<KiwiTestPlan[]>('TestPlan.filter', [{ cases__in: caseIds }]));
+    const links = await Promise.all(plans.map(async plan => {
+      const cases = await this.call<KiwiTestCase[]>('TestCase.filter', [{ plan: plan.id, id__in: caseIds }]);
+      return cases.map(testCase => ({ ...plan, case: testCase.id }));
+    }));
+    return links.flat();
+  }
+
+  // Users
+  getUsers(params: UserQuery): Promise<PaginatedResponse<KiwiUser>> {
+    return this.filter('User', { username: params.username }, params);
+  }
+
+  getUser(id: number): Promise<KiwiUser> {
+    return this.getById('User', 'User', id);
+  }
+
+  async getCurrentUser(): Promise<KiwiUser> {
+    // JSON-RPC has no "who am I" call. Without view_user permission
+    // User.filter only returns the caller; otherwise we need the username.
+    const users = await this.call<KiwiUser[]>('User.filter', [this.username ? { username: this.username } : {}]);
+    if (users.length !== 1) {
+      throw new KiwiValidationError('Unable to determine the current Kiwi TCMS user', {
+        hint: 'Set KIWI_USERNAME to the account that owns the API credentials.'
+      });
+    }
+    return users[0];
+  }
+
+  // Reference data
+  getExecutionStatuses(): Promise<KiwiExecutionStatus[]> {
+    return this.call('TestExecutionStatus.filter', [{}]);
+  }
+
+  getPriorities(): Promise<KiwiPriority[]> {
+    return this.call('Priority.filter', [{}]);
+  }
+
+  getCaseStatuses(): Promise<KiwiCaseStatus[]> {
+    return this.call('TestCaseStatus.filter', [{}]);
+  }
+
+  getPlanTypes(): Promise<KiwiPlanType[]> {
+    return this.call('PlanType.filter', [{}]);
+  }
+}
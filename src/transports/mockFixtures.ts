@@ -0,0 +1,238 @@
+// Default mock data for Kiwi TCMS MCP Server
+// Used by the mock transport when no fixture file is configured
+
+import { MockFixture } from '../types/index.js';
+import {
+  DEFAULT_CASE_STATUSES,
+  DEFAULT_EXECUTION_STATUSES,
+  DEFAULT_PLAN_TYPES,
+  DEFAULT_PRIORITIES
+} from '../utils/statuses.js';
+
+export const DEFAULT_MOCK_FIXTURE: MockFixture = {
+  products: [
+    {
+      id: 1,
+      name: 'Demo Web Application',
+      description: 'Test management for our demo web application'
+    },
+    {
+      id: 2,
+      name: 'Mobile App Testing',
+      description: 'Test cases for mobile application features'
+    }
+  ],
+  versions: [
+    { id: 1, value: '1.0', product: 1 },
+    { id: 2, value: '1.0', product: 2 },
+    { id: 3, value: '2.0', product: 1 }
+  ],
+  plans: [
+    {
+      id: 1,
+      name: 'Login & Authentication Tests',
+      text: 'Comprehensive testing of login functionality',
+      product: 1,
+      product_version: 1,
+      author: 1,
+      type: 1,
+      is_active: true,
+      create_date: '2025-01-01T10:00:00Z'
+    },
+    {
+      id: 2,
+      name: 'API Endpoint Tests',
+      text: 'Testing all REST API endpoints',
+      product: 1,
+      product_version: 1,
+      author: 1,
+      type: 1,
+      is_active: true,
+      create_date: '2025-01-02T10:00:00Z'
+    },
+    {
+      id: 3,
+      name: 'Mobile UI Tests',
+      text: 'User interface testing on mobile devices',
+      product: 2,
+      product_version: 2,
+      author: 1,
+      type: 1,
+      is_active: true,
+      create_date: '2025-01-03T10:00:00Z'
+    }
+  ],
+  cases: [
+    {
+      id: 1,
+      summary: 'Test user login with valid credentials',
+      text: 'Navigate to login page, enter valid credentials, and verify successful login',
+      setup: 'Browser opened, test environment ready',
+      breakdown: 'Close browser, clean test data',
+      action: '1. Navigate to login page\n2. Enter valid username and password\n3. Click login button',
+      expected_result: 'User should be logged in successfully and redirected to dashboard',
+      notes: 'Test with different valid user accounts',
+      case_status: 2,
+      category: 1,
+      priority: 2,
+      author: 1,
+      create_date: '2025-01-01T10:00:00Z',
+      is_automated: false,
+      tag: [1],
+      component: [1]
+    },
+    {
+      id: 2,
+      summary: 'Test user login with invalid credentials',
+      text: 'Verify error handling for invalid login attempts',
+      setup: 'Browser opened, test environment ready',
+      breakdown: 'Close browser',
+      action: '1. Navigate to login page\n2. Enter invalid username or password\n3. Click login button',
+      expected_result: 'Error message should be displayed, user not logged in',
+      notes: 'Test various invalid combinations',
+      case_status: 1,
+      category: 1,
+      priority: 2,
+      author: 1,
+      create_date: '2025-01-01T11:00:00Z',
+      is_automated: false,
+      tag: [2],
+      component: [1]
+    },
+    {
+      id: 3,
+      summary: 'Test password reset functionality',
+      text: 'Verify password reset email functionality',
+      setup: 'Test email account configured',
+      breakdown: 'Clean email inbox',
+      action: '1. Click forgot password link\n2. Enter email address\n3. Submit form',
+      expected_result: 'Password reset email should be sent',
+      notes: 'Check email delivery and reset link',
+      case_status: 1,
+      category: 1,
+      priority: 3,
+      author: 1,
+      create_date: '2025-01-01T12:00:00Z',
+      is_automated: false,
+      component: [1]
+    },
+    {
+      id: 4,
+      summary: 'Test GET /api/users endpoint',
+      text: 'API endpoint validation for user retrieval',
+      setup: 'API test environment, valid auth token',
+      breakdown: 'Clean test data',
+      action: '1. Send GET request to /api/users\n2. Verify response status\n3. Validate response format',
+      expected_result: '200 status with valid user list JSON',
+      notes: 'Automated API test',
+      case_status: 2,
+      category: 2,
+      priority: 2,
+      author: 1,
+      create_date: '2025-01-02T10:00:00Z',
+      is_automated: true,
+      tag: [1, 2],
+      component: [2]
+    },
+    {
+      id: 5,
+      summary: 'Test mobile navigation menu',
+      text: 'Mobile UI navigation functionality',
+      setup: 'Mobile device/emulator ready',
+      breakdown: 'Close app',
+      action: '1. Open mobile app\n2. Tap hamburger menu\n3. Verify all menu items',
+      expected_result: 'All navigation options should be visible and functional',
+      notes: 'Test on multiple screen sizes',
+      case_status: 1,
+      category: 3,
+      priority: 2,
+      author: 1,
+      create_date: '2025-01-03T10:00:00Z',
+      is_automated: false,
+      component: [3]
+    }
+  ],
+  plan_cases: [
+    { plan: 1, case: 1 },
+    { plan: 1, case: 2 },
+    { plan: 1, case: 3 },
+    { plan: 2, case: 4 },
+    { plan: 3, case: 5 }
+  ],
+  runs: [
+    {
+      id: 1,
+      summary: 'Authentication Test Run - Sprint 1',
+      plan: 1,
+      build: 1,
+      manager: 1,
+      default_tester: 1,
+      start_date: '2025-01-10T09:00:00Z',
+      notes: 'Testing all login and authentication features for sprint 1',
+      environment: 2
+    },
+    {
+      id: 2,
+      summary: 'API Testing Run - Sprint 1',
+      plan: 2,
+      build: 1,
+      manager: 1,
+      default_tester: 1,
+      start_date: '2025-01-11T09:00:00Z',
+      notes: 'Comprehensive API endpoint testing',
+      environment: 1
+    }
+  ],
+  executions: [
+    { id: 1, run: 1, case: 1, status: 2, assignee: 1, tested_by: 1 },
+    { id: 2, run: 1, case: 2, status: 3, assignee: 1, tested_by: 1 },
+    { id: 3, run: 1, case: 3, status: 1, assignee: 1 },
+    { id: 4, run: 2, case: 4, status: 1, assignee: 1 }
+  ],
+  builds: [
+    { id: 1, name: '1.0.0', version: 1, is_active: true }
+  ],
+  environments: [
+    { id: 1, name: 'Default', description: 'Default mock environment' },
+    { id: 2, name: 'Linux-Firefox', description: 'Desktop browser on Linux' }
+  ],
+  environment_properties: [
+    { id: 1, environment: 2, name: 'os', value: 'Linux' },
+    { id: 2, environment: 2, name: 'browser', value: 'Firefox' }
+  ],
+  tags: [
+    { id: 1, name: 'smoke' },
+    { id: 2, name: 'regression' }
+  ],
+  components: [
+    { id: 1, name: 'Authentication', product: 1 },
+    { id: 2, name: 'API', product: 1 },
+    { id: 3, name: 'Navigation', product: 2 }
+  ],
+  categories: [
+    { id: 1, name: 'Functional', product: 1 },
+    { id: 2, name: 'API', product: 1 },
+    { id: 3, name: 'UI', product: 2 }
+  ],
+  users: [
+    {
+      id: 1,
+      username: 'mock-user',
+      email: 'mock-user@example.com',
+      first_name: 'Mock',
+      last_name: 'User',
+      is_active: true,
+      is_staff: false,
+      is_superuser: false,
+      date_joined: '2025-01-01T00:00:00Z'
+    }
+  ],
+  current_user: 1,
+  execution_statuses: [
+    ...DEFAULT_EXECUTION_STATUSES,
+    { id: 6, name: 'WAIVED', weight: 10, color: '#7dc3e8', icon: 'fa fa-commenting-o' }
+  ],
+  priorities: DEFAULT_PRIORITIES,
+  case_statuses: DEFAULT_CASE_STATUSES,
+  plan_types: DEFAULT_PLAN_TYPES
+};
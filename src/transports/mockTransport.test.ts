@@ -0,0 +1,112 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MockTransport, loadMockFixture } from './mockTransport.js';
+import { DEFAULT_MOCK_FIXTURE } from './mockFixtures.js';
+import { KiwiConflictError, KiwiNotFoundError } from '../utils/errors.js';
+
+const ids = (page: { results: Array<{ id: number }> }) => page.results.map(item => item.id);
+
+describe('MockTransport', () => {
+  it('filters cases by plan, tags, components and fields', async () => {
+    const mock = new MockTransport();
+    assert.deepEqual(ids(await mock.getTestCases({ plan: 1 })), [1, 2, 3]);
+    assert.deepEqual(ids(await mock.getTestCases({ plans: [2, 3] })), [4, 5]);
+    assert.deepEqual(ids(await mock.getTestCases({ tags: [2] })), [2, 4]);
+    assert.deepEqual(ids(await mock.getTestCases({ components: [2, 3] })), [4, 5]);
+    assert.deepEqual(ids(await mock.getTestCases({ plan: 1, tags: [1] })), [1]);
+    assert.deepEqual(ids(await mock.getTestCases({ summary: 'LOGIN' })), [1, 2]);
+  });
+
+  it('pages results like the REST API', async () => {
+    const page = await new MockTransport().getTestCases({ limit: 2, offset: 2 });
+    assert.equal(page.count, 5);
+    assert.deepEqual(ids(page), [3, 4]);
+    assert.equal(page.next, 'offset=4');
+  });
+
+  it('keeps writes for the life of the transport, with fresh IDs', async () => {
+    const mock = new MockTransport();
+    const run = await mock.createTestRun({ plan: 1, build: 1, summary: 'Nightly' });
+    assert.equal(run.id, 3);
+    await mock.createTestExecution({ run: run.id, case: 1 });
+    assert.deepEqual((await mock.getTestExecutions({ run: run.id })).results.map(e => [e.case, e.status]), [[1, 1]]);
+    assert.equal((await mock.getTestRun(run.id)).summary, 'Nightly');
+  });
+
+  it('hands out copies, so callers cannot change its state', async () => {
+    const mock = new MockTransport();
+    const plan = await mock.getTestPlan(1);
+    plan.name = 'Changed';
+    assert.equal((await mock.getTestPlan(1)).name, 'Login & Authentication Tests');
+  });
+
+  it('does not change the fixture it was seeded from', async () => {
+    await new MockTransport().createBuild({ name: '2.0.0', version: 3 });
+    assert.equal(DEFAULT_MOCK_FIXTURE.builds!.length, 1);
+  });
+
+  it('rejects missing objects and dangling references', async () => {
+    const mock = new MockTransport();
+    await assert.rejects(mock.getTestPlan(99), KiwiNotFoundError);
+    await assert.rejects(mock.createTestRun({ plan: 1, build: 99 }), /Build 99 not found/);
+    await assert.rejects(mock.createTestPlan({ product: 1, parent: 99 }), /Test Plan 99 not found/);
+  });
+
+  it('rejects duplicates where the server has unique constraints', async () => {
+    const mock = new MockTransport();
+    await assert.rejects(mock.createBuild({ name: '1.0.0', version: 1 }), KiwiConflictError);
+    await assert.rejects(mock.createVersion({ value: '1.0', product: 1 }), KiwiConflictError);
+    await assert.rejects(mock.createEnvironment({ name: 'Default' }), KiwiConflictError);
+  });
+
+  it('links a case to a plan once', async () => {
+    const mock = new MockTransport();
+    await mock.addCaseToPlan(2, 1);
+    await mock.addCaseToPlan(2, 1);
+    assert.deepEqual(ids(await mock.getTestCases({ plan: 2 })), [1, 4]);
+    assert.deepEqual((await mock.getCasePlans([1])).map(plan => plan.id), [1, 2]);
+  });
+
+  it('adds an environment property once', async () => {
+    const mock = new MockTransport();
+    const first = await mock.addEnvironmentProperty(1, 'os', 'Linux');
+    const again = await mock.addEnvironmentProperty(1, 'os', 'Linux');
+    assert.equal(again.id, first.id);
+    assert.deepEqual((await mock.getEnvironmentProperties([1])).map(p => `${p.name}=${p.value}`), ['os=Linux']);
+  });
+});
+
+describe('loadMockFixture', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  const fixtureFile = (name: string, content: string) => {
+    dir ??= mkdtempSync(path.join(tmpdir(), 'kiwi-fixture-'));
+    const file = path.join(dir, name);
+    writeFileSync(file, content);
+    return file;
+  };
+
+  it('reads YAML and JSON fixtures', () => {
+    assert.deepEqual(loadMockFixture(fixtureFile('seed.yaml', 'products:\n  - { id: 7, name: Seeded }\n')).products,
+      [{ id: 7, name: 'Seeded' }]);
+    assert.deepEqual(loadMockFixture(fixtureFile('seed.json', '{"tags": [{"id": 1, "name": "smoke"}]}')).tags,
+      [{ id: 1, name: 'smoke' }]);
+  });
+
+  it('rejects fixtures that are not an object of collections', () => {
+    assert.throws(() => loadMockFixture(fixtureFile('list.json', '[]')), /Invalid mock fixture .*list\.json/);
+    assert.throws(() => loadMockFixture(fixtureFile('broken.json', '{')), /Invalid mock fixture/);
+  });
+
+  it('reports a missing file', () => {
+    assert.throws(() => loadMockFixture(path.join(tmpdir(), 'no-such-fixture.yaml')), /Unable to read mock fixture/);
+  });
+});
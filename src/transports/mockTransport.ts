@@ -0,0 +1,515 @@
+// Mock transport for Kiwi TCMS MCP Server
+// Stateful in-memory backend: writes persist for the life of the process
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { orderResults, paginateResults } from '../utils/pagination.js';
+import { KiwiConflictError, KiwiNotFoundError } from '../utils/errors.js';
+import { DEFAULT_MOCK_FIXTURE } from './mockFixtures.js';
+import {
+  KiwiTransport,
+  KiwiProduct,
+  KiwiVersion,
+  KiwiTestPlan,
+  KiwiTestCase,
+  KiwiTestRun,
+  KiwiTestExecution,
+  KiwiBuild,
+  KiwiEnvironment,
+  KiwiEnvironmentProperty,
+  KiwiTag,
+  KiwiComponent,
+  KiwiCategory,
+  KiwiCaseLink,
+  KiwiCaseStatus,
+  KiwiPlanType,
+  KiwiUser,
+  KiwiExecutionStatus,
+  KiwiPriority,
+  MockFixture,
+  PaginatedResponse,
+  PageQuery,
+  ProductQuery,
+  TestPlanQuery,
+  VersionQuery,
+  TestCaseQuery,
+  TestRunQuery,
+  TestExecutionQuery,
+  BuildQuery,
+  EnvironmentQuery,
+  TagQuery,
+  ComponentQuery,
+  CategoryQuery,
+  UserQuery
+} from '../types/index.js';
+
+/**
+ * Load a mock fixture from a JSON or YAML file (chosen by extension).
+ */
+export function loadMockFixture(path: string): MockFixture {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Unable to read mock fixture ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  try {
+    const ext = extname(path).toLowerCase();
+    const fixture = ext === '.yaml' || ext === '.yml' ? parseYaml(raw) : JSON.parse(raw);
+    if (!fixture || typeof fixture !== 'object' || Array.isArray(fixture)) {
+      throw new Error('fixture must be an object of entity collections');
+    }
+    return fixture as MockFixture;
+  } catch (error) {
+    throw new Error(`Invalid mock fixture ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function contains(haystack: string | undefined, needle: string): boolean {
+  return (haystack || '').toLowerCase().includes(needle.toLowerCase());
+}
+
+function overlaps(values: number[] | undefined, wanted: number[]): boolean {
+  return (values || []).some(value => wanted.includes(value));
+}
+
+export class MockTransport implements KiwiTransport {
+  readonly kind = 'mock' as const;
+  readonly serverSidePaging = false;
+  readonly caseFilters = [
+    'plan', 'plans', 'summary', 'tags', 'components', 'priority', 'case_status', 'is_automated', 'author'
+  ] as const;
+
+  private products: KiwiProduct[];
+  private versions: KiwiVersion[];
+  private plans: KiwiTestPlan[];
+  private cases: KiwiTestCase[];
+  private planCases: Array<{ plan: number; case: number }>;
+  private runs: KiwiTestRun[];
+  private executions: KiwiTestExecution[];
+  private builds: KiwiBuild[];
+  private environments: KiwiEnvironment[];
+  private environmentProperties: KiwiEnvironmentProperty[];
+  private tags: KiwiTag[];
+  private components: KiwiComponent[];
+  private categories: KiwiCategory[];
+  private users: KiwiUser[];
+  private currentUserId?: number;
+  private executionStatuses: KiwiExecutionStatus[];
+  private priorities: KiwiPriority[];
+  private caseStatuses: KiwiCaseStatus[];
+  private planTypes: KiwiPlanType[];
+
+  constructor(fixture: MockFixture = DEFAULT_MOCK_FIXTURE) {
+    const seed = clone(fixture);
+    this.products = seed.products || [];
+    this.versions = seed.versions || [];
+    this.plans = seed.plans || [];
+    this.cases = seed.cases || [];
+    this.planCases = seed.plan_cases || [];
+    this.runs = seed.runs || [];
+    this.executions = seed.executions || [];
+    this.builds = seed.builds || [];
+    this.environments = seed.environments || [];
+    this.environmentProperties = seed.environment_properties || [];
+    this.tags = seed.tags || [];
+    this.components = seed.components || [];
+    this.categories = seed.categories || [];
+    this.users = seed.users || [];
+    this.currentUserId = seed.current_user ?? this.users[0]?.id;
+    this.executionStatuses = seed.execution_statuses || [];
+    this.priorities = seed.priorities || [];
+    this.caseStatuses = seed.case_statuses || [];
+    this.planTypes = seed.plan_types || [];
+  }
+
+  private find<T extends { id: number }>(items: T[], label: string, id: number): T {
+    const item = items.find(i => i.id === id);
+    if (!item) {
+      throw new KiwiNotFoundError(`${label} ${id} not found`);
+    }
+    return item;
+  }
+
+  private nextId(items: Array<{ id: number }>): number {
+    return items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+  }
+
+  private page<T extends { id: number }>(items: T[], params: PageQuery): PaginatedResponse<T> {
+    return paginateResults(clone(orderResults(items, params)), params.limit, params.offset);
+  }
+
+  // Products
+  async getProducts(params: ProductQuery): Promise<PaginatedResponse<KiwiProduct>> {
+    const name = params.name;
+    return this.page(this.products.filter(p => !name || contains(p.name, name)), params);
+  }
+
+  async getProduct(id: number): Promise<KiwiProduct> {
+    return clone(this.find(this.products, 'Product', id));
+  }
+
+  // Test Plans
+  async getTestPlans(params: TestPlanQuery): Promise<PaginatedResponse<KiwiTestPlan>> {
+    const plans = this.plans.filter(p =>
+      (!params.product || p.product === params.product) &&
+      (!params.product_version || p.product_version === params.product_version) &&
+      (!params.name || contains(p.name, params.name)) &&
+      (!params.parent || p.parent === params.parent)
+    );
+    return this.page(plans, params);
+  }
+
+  async getTestPlan(id: number): Promise<KiwiTestPlan> {
+    return clone(this.find(this.plans, 'Test Plan', id));
+  }
+
+  async createTestPlan(planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan> {
+    this.checkPlanReferences(planData);
+
+    const plan: KiwiTestPlan = {
+      name: 'New Test Plan',
+      text: '',
+      product: planData.product!,
+      type: 1,
+      author: this.currentUserId || 1,
+      is_active: true,
+      ...clone(planData),
+      id: this.nextId(this.plans),
+      create_date: new Date().toISOString()
+    };
+    this.plans.push(plan);
+    return clone(plan);
+  }
+
+  async updateTestPlan(id: number, planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan> {
+    const plan = this.find(this.plans, 'Test Plan', id);
+    this.checkPlanReferences({ product: plan.product, ...planData });
+    Object.assign(plan, clone(planData), { id });
+    return clone(plan);
+  }
+
+  async addCaseToPlan(planId: number, caseId: number): Promise<void> {
+    this.find(this.plans, 'Test Plan', planId);
+    this.find(this.cases, 'Test Case', caseId);
+    if (!this.planCases.some(pc => pc.plan === planId && pc.case === caseId)) {
+      this.planCases.push({ plan: planId, case: caseId });
+    }
+  }
+
+  // Foreign keys of a plan must point at existing objects, as on the server
+  private checkPlanReferences(planData: Partial<KiwiTestPlan>): void {
+    this.find(this.products, 'Product', planData.product!);
+    if (planData.product_version) {
+      this.find(this.versions, 'Version', planData.product_version);
+    }
+    if (planData.parent) {
+      this.find(this.plans, 'Test Plan', planData.parent);
+    }
+  }
+
+  // Versions
+  async getVersions(params: VersionQuery): Promise<PaginatedResponse<KiwiVersion>> {
+    const versions = this.versions.filter(v =>
+      (!params.product || v.product === params.product) &&
+      (!params.value || v.value === params.value)
+    );
+    return this.page(versions, params);
+  }
+
+  async createVersion(versionData: { value: string; product: number }): Promise<KiwiVersion> {
+    this.find(this.products, 'Product', versionData.product);
+    if (this.versions.some(v => v.value === versionData.value && v.product === versionData.product)) {
+      throw new KiwiConflictError(`Version ${versionData.value} already exists for product ${versionData.product}`);
+    }
+
+    const version: KiwiVersion = { ...versionData, id: this.nextId(this.versions) };
+    this.versions.push(version);
+    return clone(version);
+  }
+
+  // Test Cases
+  async getTestCases(params: TestCaseQuery): Promise<PaginatedResponse<KiwiTestCase>> {
+    const inPlans = (caseId: number, plans: number[]) =>
+      this.planCases.some(pc => pc.case === caseId && plans.includes(pc.plan));
+
+    const cases = this.cases.filter(c =>
+      (!params.plan || inPlans(c.id, [params.plan])) &&
+      (!params.plans || inPlans(c.id, params.plans)) &&
+      (!params.summary || contains(c.summary, params.summary)) &&
+      (!params.tags || overlaps(c.tag, params.tags)) &&
+      (!params.components || overlaps(c.component, params.components)) &&
+      (params.priority === undefined || c.priority === params.priority) &&
+      (params.case_status === undefined || c.case_status === params.case_status) &&
+      (params.is_automated === undefined || c.is_automated === params.is_automated) &&
+      (params.author === undefined || c.author === params.author)
+    );
+    return this.page(cases, params);
+  }
+
+  async getTestCase(id: number): Promise<KiwiTestCase> {
+    return clone(this.find(this.cases, 'Test Case', id));
+  }
+
+  async createTestCase(caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
+    const testCase: KiwiTestCase = {
+      summary: 'New Test Case',
+      text: '',
+      setup: '',
+      breakdown: '',
+      action: '',
+      expected_result: '',
+      notes: '',
+      case_status: 1,
+      category: 1,
+      priority: 2,
+      author: this.currentUserId || 1,
+      is_automated: false,
+      ...clone(caseData),
+      id: this.nextId(this.cases),
+      create_date: new Date().toISOString()
+    };
+    this.cases.push(testCase);
+    return clone(testCase);
+  }
+
+  async updateTestCase(id: number, caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
+    const testCase = this.find(this.cases, 'Test Case', id);
+    Object.assign(testCase, clone(caseData), { id });
+    return clone(testCase);
+  }
+
+  // Test Runs
+  async getTestRuns(params: TestRunQuery): Promise<PaginatedResponse<KiwiTestRun>> {
+    const runs = this.runs.filter(r =>
+      (!params.plan || r.plan === params.plan) &&
+      (!params.summary || contains(r.summary, params.summary)) &&
+      (!params.environments || params.environments.includes(r.environment ?? 0))
+    );
+    return this.page(runs, params);
+  }
+
+  async getTestRun(id: number): Promise<KiwiTestRun> {
+    return clone(this.find(this.runs, 'Test Run', id));
+  }
+
+  async createTestRun(runData: Partial<KiwiTestRun>): Promise<KiwiTestRun> {
+    this.find(this.plans, 'Test Plan', runData.plan!);
+    this.find(this.builds, 'Build', runData.build!);
+    if (runData.environment) {
+      this.find(this.environments, 'Environment', runData.environment);
+    }
+
+    const run: KiwiTestRun = {
+      summary: 'New Test Run',
+      notes: '',
+      plan: runData.plan!,
+      build: runData.build!,
+      manager: this.currentUserId || 1,
+      start_date: new Date().toISOString(),
+      ...clone(runData),
+      id: this.nextId(this.runs)
+    };
+    this.runs.push(run);
+    return clone(run);
+  }
+
+  // Test Executions
+  async getTestExecutions(params: TestExecutionQuery): Promise<PaginatedResponse<KiwiTestExecution>> {
+    const executions = this.executions.filter(e =>
+      (!params.run || e.run === params.run) &&
+      (!params.case || e.case === params.case) &&
+      (!params.status || e.status === params.status)
+    );
+    return this.page(executions, params);
+  }
+
+  async getTestExecution(id: number): Promise<KiwiTestExecution> {
+    return clone(this.find(this.executions, 'Test Execution', id));
+  }
+
+  async createTestExecution(executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution> {
+    this.find(this.runs, 'Test Run', executionData.run!);
+    this.find(this.cases, 'Test Case', executionData.case!);
+
+    const execution: KiwiTestExecution = {
+      run: executionData.run!,
+      case: executionData.case!,
+      status: 1,
+      ...clone(executionData),
+      id: this.nextId(this.executions)
+    };
+    this.executions.push(execution);
+    return clone(execution);
+  }
+
+  async updateTestExecution(id: number, executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution> {
+    const execution = this.find(this.executions, 'Test Execution', id);
+    Object.assign(execution, clone(executionData), { id });
+    return clone(execution);
+  }
+
+  // Builds
+  async getBuilds(params: BuildQuery): Promise<PaginatedResponse<KiwiBuild>> {
+    const builds = this.builds.filter(b =>
+      (!params.version || b.version === params.version) &&
+      (!params.name || b.name === params.name) &&
+      (params.is_active === undefined || (b.is_active ?? true) === params.is_active)
+    );
+    return this.page(builds, params);
+  }
+
+  async getBuild(id: number): Promise<KiwiBuild> {
+    return clone(this.find(this.builds, 'Build', id));
+  }
+
+  async createBuild(buildData: { name: string; version: number }): Promise<KiwiBuild> {
+    if (this.builds.some(b => b.name === buildData.name && b.version === buildData.version)) {
+      throw new KiwiConflictError(`Build ${buildData.name} already exists for version ${buildData.version}`);
+    }
+
+    this.find(this.versions, 'Version', buildData.version);
+    const build: KiwiBuild = { is_active: true, ...buildData, id: this.nextId(this.builds) };
+    this.builds.push(build);
+    return clone(build);
+  }
+
+  async updateBuild(id: number, buildData: Partial<KiwiBuild>): Promise<KiwiBuild> {
+    const build = this.find(this.builds, 'Build', id);
+    Object.assign(build, clone(buildData), { id });
+    return clone(build);
+  }
+
+  // Environments
+  async getEnvironments(params: EnvironmentQuery): Promise<PaginatedResponse<KiwiEnvironment>> {
+    return this.page(this.environments.filter(e => !params.name || e.name === params.name), params);
+  }
+
+  async getEnvironment(id: number): Promise<KiwiEnvironment> {
+    return clone(this.find(this.environments, 'Environment', id));
+  }
+
+  async createEnvironment(environmentData: { name: string; description?: string }): Promise<KiwiEnvironment> {
+    if (this.environments.some(e => e.name === environmentData.name)) {
+      throw new KiwiConflictError(`Environment ${environmentData.name} already exists`);
+    }
+
+    const environment: KiwiEnvironment = { ...environmentData, id: this.nextId(this.environments) };
+    this.environments.push(environment);
+    return clone(environment);
+  }
+
+  async getEnvironmentProperties(environmentIds: number[]): Promise<KiwiEnvironmentProperty[]> {
+    return clone(this.environmentProperties.filter(p => environmentIds.includes(p.environment)));
+  }
+
+  async addEnvironmentProperty(environmentId: number, name: string, value: string): Promise<KiwiEnvironmentProperty> {
+    this.find(this.environments, 'Environment', environmentId);
+    const existing = this.environmentProperties.find(p =>
+      p.environment === environmentId && p.name === name && p.value === value);
+    if (existing) {
+      return clone(existing);
+    }
+
+    const property: KiwiEnvironmentProperty = {
+      id: this.nextId(this.environmentProperties),
+      environment: environmentId,
+      name,
+      value
+    };
+    this.environmentProperties.push(property);
+    return clone(property);
+  }
+
+  // Tags
+  async getTags(params: TagQuery): Promise<PaginatedResponse<KiwiTag>> {
+    return this.page(this.tags.filter(t => !params.name || t.name === params.name), params);
+  }
+
+  async getTag(id: number): Promise<KiwiTag> {
+    return clone(this.find(this.tags, 'Tag', id));
+  }
+
+  // Components
+  async getComponents(params: ComponentQuery): Promise<PaginatedResponse<KiwiComponent>> {
+    const components = this.components.filter(c =>
+      (!params.product || c.product === params.product) &&
+      (!params.name || c.name === params.name)
+    );
+    return this.page(components, params);
+  }
+
+  async getComponent(id: number): Promise<KiwiComponent> {
+    return clone(this.find(this.components, 'Component', id));
+  }
+
+  // Categories
+  async getCategories(params: CategoryQuery): Promise<PaginatedResponse<KiwiCategory>> {
+    const categories = this.categories.filter(c =>
+      (!params.ids || params.ids.includes(c.id)) &&
+      (!params.product || c.product === params.product)
+    );
+    return this.page(categories, params);
+  }
+
+  // Case links
+  async getCaseTags(caseIds: number[]): Promise<KiwiCaseLink<KiwiTag>[]> {
+    return this.caseLinks(caseIds, c => this.tags.filter(t => (c.tag || []).includes(t.id)));
+  }
+
+  async getCaseComponents(caseIds: number[]): Promise<KiwiCaseLink<KiwiComponent>[]> {
+    return this.caseLinks(caseIds, c => this.components.filter(component => (c.component || []).includes(component.id)));
+  }
+
+  async getCasePlans(caseIds: number[]): Promise<KiwiCaseLink<KiwiTestPlan>[]> {
+    return this.caseLinks(caseIds, c =>
+      this.plans.filter(p => this.planCases.some(pc => pc.plan === p.id && pc.case === c.id)));
+  }
+
+  private caseLinks<T>(caseIds: number[], linked: (testCase: KiwiTestCase) => T[]): KiwiCaseLink<T>[] {
+    return clone(this.cases
+      .filter(c => caseIds.includes(c.id))
+      .flatMap(c => linked(c).map(item => ({ ...item, case: c.id }))));
+  }
+
+  // Users
+  async getUsers(params: UserQuery): Promise<PaginatedResponse<KiwiUser>> {
+    return this.page(this.users.filter(u => !params.username || u.username === params.username), params);
+  }
+
+  async getUser(id: number): Promise<KiwiUser> {
+    return clone(this.find(this.users, 'User', id));
+  }
+
+  async getCurrentUser(): Promise<KiwiUser> {
+    if (this.currentUserId === undefined) {
+      throw new KiwiNotFoundError('Mock fixture defines no users', {
+        hint: 'Add a users collection (and optionally current_user) to the mock fixture.'
+      });
+    }
+    return this.getUser(this.currentUserId);
+  }
+
+  // Reference data
+  async getExecutionStatuses(): Promise<KiwiExecutionStatus[]> {
+    return clone(this.executionStatuses);
+  }
+
+  async getPriorities(): Promise<KiwiPriority[]> {
+    return clone(this.priorities);
+  }
+
+  async getCaseStatuses(): Promise<KiwiCaseStatus[]> {
+    return clone(this.caseStatuses);
+  }
+
+  async getPlanTypes(): Promise<KiwiPlanType[]> {
+    return clone(this.planTypes);
+  }
+}
@@ -0,0 +1,273 @@
+// REST transport for Kiwi TCMS MCP Server
+// Talks to a REST API exposed under /api/v1/ (e.g. a REST plugin or proxy)
+
+import { AxiosInstance } from 'axios';
+import {
+  KiwiTransport,
+  KiwiProduct,
+  KiwiVersion,
+  KiwiTestPlan,
+  KiwiTestCase,
+  KiwiTestRun,
+  KiwiTestExecution,
+  KiwiBuild,
+  KiwiEnvironment,
+  KiwiEnvironmentProperty,
+  KiwiTag,
+  KiwiComponent,
+  KiwiCategory,
+  KiwiCaseLink,
+  KiwiCaseStatus,
+  KiwiPlanType,
+  KiwiUser,
+  KiwiExecutionStatus,
+  KiwiPriority,
+  PaginatedResponse,
+  PageQuery,
+  ProductQuery,
+  TestPlanQuery,
+  VersionQuery,
+  TestCaseQuery,
+  TestRunQuery,
+  TestExecutionQuery,
+  BuildQuery,
+  EnvironmentQuery,
+  TagQuery,
+  ComponentQuery,
+  CategoryQuery,
+  UserQuery
+} from '../types/index.js';
+
+const API_PREFIX = 'api/v1/';
+
+export class RestTransport implements KiwiTransport {
+  readonly kind = 'rest' as const;
+  readonly serverSidePaging = true;
+  readonly caseFilters = ['plan', 'summary'] as const;
+
+  constructor(private http: AxiosInstance) {}
+
+  private async get<T>(path: string, params?: PageQuery & Record<string, any>): Promise<T> {
+    const { newest_first: newestFirst, ...query } = params || {};
+    const response = await this.http.get(`${API_PREFIX}${path}`, {
+      params: newestFirst ? { ...query, ordering: '-id' } : query
+    });
+    return response.data;
+  }
+
+  private async post<T>(path: string, data: object): Promise<T> {
+    const response = await this.http.post(`${API_PREFIX}${path}`, data);
+    return response.data;
+  }
+
+  private async patch<T>(path: string, data: object): Promise<T> {
+    const response = await this.http.patch(`${API_PREFIX}${path}`, data);
+    return response.data;
+  }
+
+  // Rows linked to any of the cases; accepts either a page or a bare array
+  private async getCaseLinks<T>(path: string, caseIds: number[]): Promise<T[]> {
+    const data = await this.get<PaginatedResponse<T> | T[]>(path, { case__in: caseIds.join(',') });
+    return Array.isArray(data) ? data : data.results;
+  }
+
+  // Products
+  getProducts(params: ProductQuery): Promise<PaginatedResponse<KiwiProduct>> {
+    return this.get('products/', params);
+  }
+
+  getProduct(id: number): Promise<KiwiProduct> {
+    return this.get(`products/${id}/`);
+  }
+
+  // Test Plans
+  getTestPlans(params: TestPlanQuery): Promise<PaginatedResponse<KiwiTestPlan>> {
+    return this.get('testplans/', params);
+  }
+
+  getTestPlan(id: number): Promise<KiwiTestPlan> {
+    return this.get(`testplans/${id}/`);
+  }
+
+  createTestPlan(planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan> {
+    return this.post('testplans/', planData);
+  }
+
+  updateTestPlan(id: number, planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan> {
+    return this.patch(`testplans/${id}/`, planData);
+  }
+
+  async addCaseToPlan(planId: number, caseId: number): Promise<void> {
+    await this.post(`testplans/${planId}/cases/`, { case: caseId });
+  }
+
+  // Versions
+  getVersions(params: VersionQuery): Promise<PaginatedResponse<KiwiVersion>> {
+    return this.get('versions/', params);
+  }
+
+  createVersion(versionData: { value: string; product: number }): Promise<KiwiVersion> {
+    return this.post('versions/', versionData);
+  }
+
+  // Test Cases
+  getTestCases(params: TestCaseQuery): Promise<PaginatedResponse<KiwiTestCase>> {
+    return this.get('testcases/', params);
+  }
+
+  getTestCase(id: number): Promise<KiwiTestCase> {
+    return this.get(`testcases/${id}/`);
+  }
+
+  createTestCase(caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
+    return this.post('testcases/', caseData);
+  }
+
+  updateTestCase(id: number, caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase> {
+    return this.patch(`testcases/${id}/`, caseData);
+  }
+
+  // Test Runs
+  getTestRuns(params: TestRunQuery): Promise<PaginatedResponse<KiwiTestRun>> {
+    const { environments, ...query } = params;
+    return this.get('testruns/', { ...query, environment__in: environments?.join(',') });
+  }
+
+  getTestRun(id: number): Promise<KiwiTestRun> {
+    return this.get(`testruns/${id}/`);
+  }
+
+  createTestRun(runData: Partial<KiwiTestRun>): Promise<KiwiTestRun> {
+    return this.post('testruns/', runData);
+  }
+
+  // Test Executions
+  getTestExecutions(params: TestExecutionQuery): Promise<PaginatedResponse<KiwiTestExecution>> {
+    return this.get('testexecutions/', params);
+  }
+
+  getTestExecution(id: number): Promise<KiwiTestExecution> {
+    return this.get(`testexecutions/${id}/`);
+  }
+
+  createTestExecution(executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution> {
+    return this.post('testexecutions/', executionData);
+  }
+
+  updateTestExecution(id: number, executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution> {
+    return this.patch(`testexecutions/${id}/`, executionData);
+  }
+
+  // Builds
+  getBuilds(params: BuildQuery): Promise<PaginatedResponse<KiwiBuild>> {
+    return this.get('builds/', params);
+  }
+
+  getBuild(id: number): Promise<KiwiBuild> {
+    return this.get(`builds/${id}/`);
+  }
+
+  createBuild(buildData: { name: string; version: number }): Promise<KiwiBuild> {
+    return this.post('builds/', buildData);
+  }
+
+  updateBuild(id: number, buildData: Partial<KiwiBuild>): Promise<KiwiBuild> {
+    return this.patch(`builds/${id}/`, buildData);
+  }
+
+  // Environments
+  getEnvironments(params: EnvironmentQuery): Promise<PaginatedResponse<KiwiEnvironment>> {
+    return this.get('environments/', params);
+  }
+
+  getEnvironment(id: number): Promise<KiwiEnvironment> {
+    return this.get(`environments/${id}/`);
+  }
+
+  createEnvironment(environmentData: { name: string; description?: string }): Promise<KiwiEnvironment> {
+    return this.post('environments/', environmentData);
+  }
+
+  async getEnvironmentProperties(environmentIds: number[]): Promise<KiwiEnvironmentProperty[]> {
+    const data = await this.get<PaginatedResponse<KiwiEnvironmentProperty> | KiwiEnvironmentProperty[]>(
+      'environments/properties/',
+      { environment__in: environmentIds.join(',') }
+    );
+    return Array.isArray(data) ? data : data.results;
+  }
+
+  addEnvironmentProperty(environmentId: number, name: string, value: string): Promise<KiwiEnvironmentProperty> {
+    return this.post(`environments/${environmentId}/properties/`, { name, value });
+  }
+
+  // Tags
+  getTags(params: TagQuery): Promise<PaginatedResponse<KiwiTag>> {
+    return this.get('tags/', params);
+  }
+
+  getTag(id: number): Promise<KiwiTag> {
+    return this.get(`tags/${id}/`);
+  }
+
+  // Components
+  getComponents(params: ComponentQuery): Promise<PaginatedResponse<KiwiComponent>> {
+    return this.get('components/', params);
+  }
+
+  getComponent(id: number): Promise<KiwiComponent> {
+    return this.get(`components/${id}/`);
+  }
+
+  // Categories
+  getCategories(params: CategoryQuery): Promise<PaginatedResponse<KiwiCategory>> {
+    const { ids, ...query } = params;
+    return this.get('categories/', { ...query, id__in: ids?.join(',') });
+  }
+
+  // Case links (one row per linked pair)
+  getCaseTags(caseIds: number[]): Promise<KiwiCaseLink<KiwiTag>[]> {
+    return this.getCaseLinks('testcases/tags/', caseIds);
+  }
+
+  getCaseComponents(caseIds: number[]): Promise<KiwiCaseLink<KiwiComponent>[]> {
+    return this.getCaseLinks('testcases/components/', caseIds);
+  }
+
+  getCasePlans(caseIds: number[]): Promise<KiwiCaseLink<KiwiTestPlan>[]> {
+    return this.getCaseLinks('testcases/plans/', caseIds);
+  }
+
+  // Users
+  getUsers(params: UserQuery): Promise<PaginatedResponse<KiwiUser>> {
+    return this.get('users/', params);
+  }
+
+  getUser(id: number): Promise<KiwiUser> {
+    return this.get(`users/${id}/`);
+  }
+
+  getCurrentUser(): Promise<KiwiUser> {
+    return this.get('auth/me/');
+  }
+
+  // Reference data (small lists; accept either a page or a bare array)
+  async getExecutionStatuses(): Promise<KiwiExecutionStatus[]> {
+    const data = await this.get<PaginatedResponse<KiwiExecutionStatus> | KiwiExecutionStatus[]>('testexecutionstatuses/');
+    return Array.isArray(data) ? data : data.results;
+  }
+
+  async getPriorities(): Promise<KiwiPriority[]> {
+    const data = await this.get<PaginatedResponse<KiwiPriority> | KiwiPriority[]>('priorities/');
+    return Array.isArray(data) ? data : data.results;
+  }
+
+  async getCaseStatuses(): Promise<KiwiCaseStatus[]> {
+    const data = await this.get<PaginatedResponse<KiwiCaseStatus> | KiwiCaseStatus[]>('testcasestatuses/');
+    return Array.isArray(data) ? data : data.results;
+  }
+
+  async getPlanTypes(): Promise<KiwiPlanType[]> {
+    const data = await this.get<PaginatedResponse<KiwiPlanType> | KiwiPlanType[]>('plantypes/');
+    return Array.isArray(data) ? data : data.results;
+  }
+}
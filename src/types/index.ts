@@ -1,20 +1,61 @@
 // Kiwi TCMS MCP Server Types
 
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { FromSchema, JsonSchema } from '../utils/schema.js';
+import type * as tools from '../tools/index.js';
+import type { KiwiApiClient } from '../kiwiApiClient.js';
+import type { KiwiInstanceManager } from '../kiwiInstanceManager.js';
+import type { KiwiServices } from '../services/index.js';
+import type { AuditLog } from '../utils/auditLog.js';
+import type { Logger } from '../utils/logger.js';
+
+/** Behaviour hints clients use to decide how carefully to call a tool. */
+export interface ToolAnnotations {
+  /** The tool never changes Kiwi TCMS data. */
+  readOnlyHint?: boolean;
+  /** A write may overwrite or remove existing data (only meaningful when not read-only). */
+  destructiveHint?: boolean;
+  /** Repeating a call with the same arguments has no further effect. */
+  idempotentHint?: boolean;
+}
 
 export interface ToolDefinition {
   name: string;
   description: string;
-  inputSchema: {
-    type: string;
-    properties?: Record<string, any>;
-    required?: string[];
-    additionalProperties?: boolean;
-  };
+  inputSchema: JsonSchema & { type: 'object' };
+  annotations?: ToolAnnotations;
 }
 
 export type ToolResult = CallToolResult;
 
+/** What a tool handler gets besides its arguments, bound to the selected instance. */
+export interface KiwiToolContext {
+  apiClient: KiwiApiClient;
+  services: KiwiServices;
+  instances: KiwiInstanceManager;
+  audit: AuditLog;
+  logger: Logger;
+}
+
+/**
+ * A self-contained tool: built-in tools live in src/tools/, plugins are
+ * loaded from the modules listed in KIWI_TOOL_PLUGINS. Arguments reach the
+ * handler only after passing `inputSchema`.
+ */
+export interface KiwiToolModule<S extends JsonSchema = JsonSchema> {
+  name: string;
+  description: string;
+  /** Heading the tool is listed under at startup (default: Plugins). */
+  category?: string;
+  inputSchema: S & { type: 'object' };
+  annotations: ToolAnnotations;
+  /** Enum values for top-level string properties that differ per instance, e.g. statuses. */
+  dynamicEnums?: Record<string, (client: KiwiApiClient) => string[]>;
+  /** Whether the tool takes the optional `instance` argument (default: true). */
+  instanceScoped?: boolean;
+  handler(args: FromSchema<S>, context: KiwiToolContext): Promise<ToolResult> | ToolResult;
+}
+
 // Kiwi TCMS API Response Types
 export interface KiwiProduct {
   id: number;
@@ -41,6 +82,7 @@ export interface KiwiTestPlan {
   product: number;
   product_version?: number;
   type: number;
+  parent?: number | null;
   author: number;
   owner?: number;
   create_date: string;
@@ -49,6 +91,12 @@ export interface KiwiTestPlan {
   tag?: number[];
 }
 
+/** Kind of test plan (Unit, Integration, Acceptance, ...). */
+export interface KiwiPlanType {
+  id: number;
+  name: string;
+}
+
 export interface KiwiTestCase {
   id: number;
   summary: string;
@@ -71,6 +119,7 @@ export interface KiwiTestCase {
   extra_link?: string;
   requirement?: string;
   tag?: number[];
+  component?: number[];
 }
 
 export interface KiwiTestRun {
@@ -86,6 +135,7 @@ export interface KiwiTestRun {
   planned_start?: string;
   planned_stop?: string;
   tag?: number[];
+  environment?: number | null;
 }
 
 export interface KiwiTestExecution {
@@ -107,10 +157,26 @@ export interface KiwiEnvironment {
   description?: string;
 }
 
+/** Key/value pair of an environment, e.g. os=Linux; a key may have several values. */
+export interface KiwiEnvironmentProperty {
+  id: number;
+  environment: number;
+  name: string;
+  value: string;
+}
+
+/** An environment as tools report it, with its properties by name. */
+export interface KiwiEnvironmentDetails {
+  id: number;
+  name: string;
+  properties: Array<{ name: string; value: string }>;
+}
+
 export interface KiwiBuild {
   id: number;
   name: string;
   version: number;
+  is_active?: boolean;
 }
 
 export interface KiwiTag {
@@ -118,6 +184,58 @@ export interface KiwiTag {
   name: string;
 }
 
+/** Product area a test case belongs to; names are unique per product only. */
+export interface KiwiComponent {
+  id: number;
+  name: string;
+  product: number;
+  description?: string;
+}
+
+/** Kind of test a case is (functional, regression, ...); defined per product. */
+export interface KiwiCategory {
+  id: number;
+  name: string;
+  product: number;
+  description?: string;
+}
+
+/** A tag, component or plan paired with one test case it is linked to. */
+export type KiwiCaseLink<T> = T & { case: number };
+
+/** Names of what a test case is linked to, for display. */
+export interface KiwiCaseDetails {
+  tags: string[];
+  components: string[];
+  category: string | null;
+  plans: Array<{ id: number; name: string }>;
+}
+
+/** Review state of a test case (PROPOSED, CONFIRMED, DISABLED, NEED_UPDATE, ...). */
+export interface KiwiCaseStatus {
+  id: number;
+  name: string;
+  is_confirmed?: boolean;
+}
+
+/**
+ * Execution status. Kiwi TCMS derives the outcome from the weight:
+ * positive counts as passed, negative as failed, zero as not yet decided.
+ */
+export interface KiwiExecutionStatus {
+  id: number;
+  name: string;
+  weight: number;
+  color?: string;
+  icon?: string;
+}
+
+export interface KiwiPriority {
+  id: number;
+  value: string;
+  is_active?: boolean;
+}
+
 export interface KiwiUser {
   id: number;
   username: string;
@@ -131,138 +249,305 @@ export interface KiwiUser {
   last_login?: string;
 }
 
-// MCP Tool Input Types
-export interface ListProductsInput {
-  query?: {
-    name_contains?: string;
-    limit?: number;
-    cursor?: string;
-  };
+// Kiwi TCMS API Query Types
+export interface PageQuery {
+  limit?: number;
+  offset?: number;
+  /** Highest ID first instead of the server's default (usually oldest first) order. */
+  newest_first?: boolean;
 }
 
-export interface ListPlansInput {
-  product_id: number;
-  version?: string;
-  limit?: number;
-  cursor?: string;
+export interface ProductQuery extends PageQuery {
+  name?: string;
 }
 
-export interface ListCasesInput {
-  plan_id?: number;
-  product_id?: number;
-  tags?: string[];
-  component?: string;
-  text?: string;
-  limit?: number;
-  cursor?: string;
+export interface TestPlanQuery extends PageQuery {
+  product?: number;
+  product_version?: number;
+  name?: string;
+  parent?: number;
 }
 
-export interface GetCaseInput {
-  case_id: number;
+export interface VersionQuery extends PageQuery {
+  product?: number;
+  value?: string;
 }
 
-export interface CreateRunInput {
-  plan_id: number;
-  build: string;
-  environment: string;
-  assignee?: string;
-  case_ids: number[];
+/** Test case filters; list-valued filters match cases with any of the values. */
+export interface TestCaseFilter {
+  plan?: number;
+  plans?: number[];
+  summary?: string;
+  tags?: number[];
+  components?: number[];
+  priority?: number;
+  case_status?: number;
+  is_automated?: boolean;
+  author?: number;
 }
 
-export interface AddCasesToRunInput {
-  run_id: number;
-  case_ids: number[];
+export interface TestCaseQuery extends PageQuery, TestCaseFilter {}
+
+export interface TestCaseSearch extends TestCaseFilter {
+  /** Tags a case must all carry. */
+  all_tags?: number[];
 }
 
-export interface GetRunInput {
-  run_id: number;
+export interface TestRunQuery extends PageQuery {
+  plan?: number;
+  summary?: string;
+  /** Runs attached to any of these environments. */
+  environments?: number[];
 }
 
-export interface ExecuteCaseInput {
-  run_id: number;
-  case_id: number;
-  status: 'PASS' | 'FAIL' | 'BLOCKED' | 'ERROR';
-  actual_result?: string;
-  evidence?: Array<{
-    type: 'log' | 'screenshot' | 'artifact';
-    uri: string;
-    title?: string;
-  }>;
-  duration_seconds?: number;
-  rerun?: boolean;
-  jira_issue_key?: string;
-}
-
-export interface AttachArtifactInput {
-  execution_id: number;
-  type: 'log' | 'screenshot' | 'artifact';
-  uri: string;
-  title?: string;
+export interface TestExecutionQuery extends PageQuery {
+  run?: number;
+  case?: number;
+  status?: number;
 }
 
-export interface LinkJiraInput {
-  execution_id?: number;
-  case_id?: number;
-  issue_key: string;
+export interface BuildQuery extends PageQuery {
+  version?: number;
+  name?: string;
+  is_active?: boolean;
 }
 
-export interface RunReportInput {
-  run_id: number;
-  format: 'json' | 'junit' | 'html';
+export interface EnvironmentQuery extends PageQuery {
+  name?: string;
 }
 
-export interface CreateCaseInput {
-  product_id: number;
-  summary: string;
-  preconds?: string;
-  steps: Array<{
-    action: string;
-    expected: string;
-  }>;
-  priority: 'P1' | 'P2' | 'P3' | 'P4';
-  component?: string;
-  tags?: string[];
+export interface TagQuery extends PageQuery {
+  name?: string;
 }
 
-export interface UpdateCaseInput {
-  case_id: number;
-  patch: {
-    summary?: string;
-    steps?: Array<{
-      action: string;
-      expected: string;
-    }>;
-    tags?: string[];
-    [key: string]: any;
-  };
+export interface ComponentQuery extends PageQuery {
+  product?: number;
+  name?: string;
 }
 
-// Status mappings
-export interface TestExecutionStatus {
-  IDLE: number;
-  PASS: number;
-  FAIL: number;
-  BLOCKED: number;
-  ERROR: number;
+export interface CategoryQuery extends PageQuery {
+  ids?: number[];
+  product?: number;
 }
 
-export interface Priority {
-  P1: number;
-  P2: number;
-  P3: number;
-  P4: number;
+export interface UserQuery extends PageQuery {
+  username?: string;
 }
 
-// Error types
-export interface KiwiApiError {
-  code: 'NOT_FOUND' | 'VALIDATION' | 'FORBIDDEN' | 'CONFLICT' | 'UPSTREAM_ERROR' | 'RATE_LIMIT';
-  message: string;
-  upstream_status?: number;
-  details?: {
-    kiwi_response?: any;
-  };
+// Retry policy for transient upstream failures (429, 5xx, network errors)
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
 }
 
+// Lookup cache for reference data
+export type CacheEntity = 'products' | 'versions' | 'plans' | 'cases' | 'builds' | 'environments' | 'tags' | 'components' | 'users';
+
+export interface CacheEntityStats {
+  ttl_seconds: number;
+  size: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  entities: Record<CacheEntity, CacheEntityStats>;
+}
+
+// Transports
+export type KiwiTransportKind = 'rest' | 'jsonrpc' | 'mock';
+
+// Authentication
+export type KiwiAuthMode = 'token' | 'session' | 'token_file';
+
+export type KiwiAuthConfig =
+  | { mode: 'token'; token: string }
+  | { mode: 'session'; username: string; password: string }
+  | { mode: 'token_file'; path: string };
+
+/**
+ * Supplies the credential headers for requests to one Kiwi TCMS instance
+ * and renews them when the server rejects them.
+ */
+export interface KiwiAuthProvider {
+  readonly mode: KiwiAuthMode;
+  /** Bumped every time the credential changes. */
+  readonly generation: number;
+  getHeaders(): Promise<Record<string, string>>;
+  /**
+   * Called when a request sent with credentials of `generation` was rejected.
+   * Resolves true once fresher credentials are available to replay it with.
+   */
+  refresh(generation: number): Promise<boolean>;
+}
+
+// Instances
+/** Connection profile for one Kiwi TCMS server. */
+export interface KiwiInstanceConfig {
+  name: string;
+  baseUrl: string;
+  auth: KiwiAuthConfig;
+  transport: KiwiTransportKind;
+  username?: string;
+  mockFixture?: string;
+  /** Request timeout for this instance's API calls and logins. */
+  timeoutMs: number;
+  /** The server deduplicates writes by Idempotency-Key; only then are keys sent. */
+  idempotencyKeys: boolean;
+}
+
+export interface KiwiInstanceStatus {
+  name: string;
+  base_url: string;
+  transport: KiwiTransportKind;
+  default: boolean;
+  reachable: boolean;
+  latency_ms?: number;
+  error?: string;
+}
+
+/**
+ * Wire protocol used by KiwiApiClient. Each transport maps the client's
+ * entity operations onto one Kiwi TCMS API flavour.
+ */
+export interface KiwiTransport {
+  readonly kind: KiwiTransportKind;
+  /** False when list calls always materialise the full result set and slice it locally. */
+  readonly serverSidePaging: boolean;
+  /** Test case filters getTestCases applies itself; KiwiApiClient checks the others. */
+  readonly caseFilters: ReadonlyArray<keyof TestCaseFilter>;
+
+  getProducts(params: ProductQuery): Promise<PaginatedResponse<KiwiProduct>>;
+  getProduct(id: number): Promise<KiwiProduct>;
+
+  getTestPlans(params: TestPlanQuery): Promise<PaginatedResponse<KiwiTestPlan>>;
+  getTestPlan(id: number): Promise<KiwiTestPlan>;
+  createTestPlan(planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan>;
+  updateTestPlan(id: number, planData: Partial<KiwiTestPlan>): Promise<KiwiTestPlan>;
+  /** Link an existing case to a plan; linking it again has no effect. */
+  addCaseToPlan(planId: number, caseId: number): Promise<void>;
+
+  getVersions(params: VersionQuery): Promise<PaginatedResponse<KiwiVersion>>;
+  createVersion(versionData: { value: string; product: number }): Promise<KiwiVersion>;
+
+  getTestCases(params: TestCaseQuery): Promise<PaginatedResponse<KiwiTestCase>>;
+  getTestCase(id: number): Promise<KiwiTestCase>;
+  createTestCase(caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase>;
+  updateTestCase(id: number, caseData: Partial<KiwiTestCase>): Promise<KiwiTestCase>;
+
+  getTestRuns(params: TestRunQuery): Promise<PaginatedResponse<KiwiTestRun>>;
+  getTestRun(id: number): Promise<KiwiTestRun>;
+  createTestRun(runData: Partial<KiwiTestRun>): Promise<KiwiTestRun>;
+
+  getTestExecutions(params: TestExecutionQuery): Promise<PaginatedResponse<KiwiTestExecution>>;
+  getTestExecution(id: number): Promise<KiwiTestExecution>;
+  createTestExecution(executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution>;
+  updateTestExecution(id: number, executionData: Partial<KiwiTestExecution>): Promise<KiwiTestExecution>;
+
+  getBuilds(params: BuildQuery): Promise<PaginatedResponse<KiwiBuild>>;
+  getBuild(id: number): Promise<KiwiBuild>;
+  createBuild(buildData: { name: string; version: number }): Promise<KiwiBuild>;
+  updateBuild(id: number, buildData: Partial<KiwiBuild>): Promise<KiwiBuild>;
+
+  getEnvironments(params: EnvironmentQuery): Promise<PaginatedResponse<KiwiEnvironment>>;
+  getEnvironment(id: number): Promise<KiwiEnvironment>;
+  createEnvironment(environmentData: { name: string; description?: string }): Promise<KiwiEnvironment>;
+  /** Properties of any of the environments, one row per key/value pair. */
+  getEnvironmentProperties(environmentIds: number[]): Promise<KiwiEnvironmentProperty[]>;
+  addEnvironmentProperty(environmentId: number, name: string, value: string): Promise<KiwiEnvironmentProperty>;
+
+  getTags(params: TagQuery): Promise<PaginatedResponse<KiwiTag>>;
+  getTag(id: number): Promise<KiwiTag>;
+
+  getComponents(params: ComponentQuery): Promise<PaginatedResponse<KiwiComponent>>;
+  getComponent(id: number): Promise<KiwiComponent>;
+
+  getCategories(params: CategoryQuery): Promise<PaginatedResponse<KiwiCategory>>;
+
+  /** Links of many cases at once, one row per linked pair. */
+  getCaseTags(caseIds: number[]): Promise<KiwiCaseLink<KiwiTag>[]>;
+  getCaseComponents(caseIds: number[]): Promise<KiwiCaseLink<KiwiComponent>[]>;
+  getCasePlans(caseIds: number[]): Promise<KiwiCaseLink<KiwiTestPlan>[]>;
+
+  getUsers(params: UserQuery): Promise<PaginatedResponse<KiwiUser>>;
+  getUser(id: number): Promise<KiwiUser>;
+  getCurrentUser(): Promise<KiwiUser>;
+
+  getExecutionStatuses(): Promise<KiwiExecutionStatus[]>;
+  getPriorities(): Promise<KiwiPriority[]>;
+  getCaseStatuses(): Promise<KiwiCaseStatus[]>;
+  getPlanTypes(): Promise<KiwiPlanType[]>;
+}
+
+/**
+ * Seed data for the in-memory mock transport, loaded from a JSON or YAML
+ * fixture file. Omitted collections start empty.
+ */
+export interface MockFixture {
+  products?: KiwiProduct[];
+  versions?: KiwiVersion[];
+  plans?: KiwiTestPlan[];
+  cases?: KiwiTestCase[];
+  plan_cases?: Array<{ plan: number; case: number }>;
+  runs?: KiwiTestRun[];
+  executions?: KiwiTestExecution[];
+  builds?: KiwiBuild[];
+  environments?: KiwiEnvironment[];
+  environment_properties?: KiwiEnvironmentProperty[];
+  tags?: KiwiTag[];
+  components?: KiwiComponent[];
+  categories?: KiwiCategory[];
+  users?: KiwiUser[];
+  current_user?: number;
+  execution_statuses?: KiwiExecutionStatus[];
+  priorities?: KiwiPriority[];
+  case_statuses?: KiwiCaseStatus[];
+  plan_types?: KiwiPlanType[];
+}
+
+// MCP Tool Input Types, derived from the schemas the registry validates
+// arguments against (see src/tools/)
+export type CacheStatsInput = FromSchema<typeof tools.cacheStatsSchema>;
+export type ListProductsInput = FromSchema<typeof tools.listProductsSchema>;
+export type ListPlansInput = FromSchema<typeof tools.listPlansSchema>;
+export type ListCasesInput = FromSchema<typeof tools.listCasesSchema>;
+export type GetCaseInput = FromSchema<typeof tools.getCaseSchema>;
+export type CreateRunInput = FromSchema<typeof tools.createRunSchema>;
+export type AddCasesToRunInput = FromSchema<typeof tools.addCasesToRunSchema>;
+export type GetRunInput = FromSchema<typeof tools.getRunSchema>;
+export type ListRunsInput = FromSchema<typeof tools.listRunsSchema>;
+export type ExecuteCaseInput = FromSchema<typeof tools.executeCaseSchema>;
+export type AttachArtifactInput = FromSchema<typeof tools.attachArtifactSchema>;
+export type LinkJiraInput = FromSchema<typeof tools.linkJiraSchema>;
+export type RunReportInput = FromSchema<typeof tools.runReportSchema>;
+export type CreateCaseInput = FromSchema<typeof tools.createCaseSchema>;
+export type UpdateCaseInput = FromSchema<typeof tools.updateCaseSchema>;
+export type CreatePlanInput = FromSchema<typeof tools.createPlanSchema>;
+export type UpdatePlanInput = FromSchema<typeof tools.updatePlanSchema>;
+export type ClonePlanInput = FromSchema<typeof tools.clonePlanSchema>;
+export type GetPlanTreeInput = FromSchema<typeof tools.getPlanTreeSchema>;
+export type ListVersionsInput = FromSchema<typeof tools.listVersionsSchema>;
+export type CreateVersionInput = FromSchema<typeof tools.createVersionSchema>;
+export type ListBuildsInput = FromSchema<typeof tools.listBuildsSchema>;
+export type CreateBuildInput = FromSchema<typeof tools.createBuildSchema>;
+export type UpdateBuildInput = FromSchema<typeof tools.updateBuildSchema>;
+
+export interface GetPlanInput {
+  plan_id: number;
+}
+
+// Status and priority reference data, as loaded from the server
+export type StatusOutcome = 'pass' | 'fail' | 'neutral';
+
+// Error types (error classes live in utils/errors.ts)
+export type KiwiErrorCode = 'NOT_FOUND' | 'VALIDATION' | 'FORBIDDEN' | 'CONFLICT' | 'UPSTREAM_ERROR' | 'RATE_LIMIT';
+
 // Pagination
 export interface PaginatedResponse<T> {
   count: number;
@@ -276,13 +561,61 @@ export interface CursorPaginatedResponse<T> {
   next_cursor?: string;
 }
 
+// kiwi.get_case payload; the linked names are missing only if the lookup found none
+export interface CaseDetails extends Partial<KiwiCaseDetails> {
+  id: number;
+  summary: string;
+  steps: Array<{ action: string; expected: string }>;
+  preconds: string | null;
+  /** Priority name, e.g. P1 */
+  priority: string;
+  is_automated: boolean;
+  text: string;
+  setup: string;
+  breakdown: string;
+  notes: string;
+  author: number;
+  create_date: string;
+}
+
+// kiwi.get_run payload
+export interface RunDetails {
+  run_id: number;
+  plan_id: number;
+  plan_name: string;
+  build: string;
+  environment: KiwiEnvironmentDetails | null;
+  summary: string;
+  notes: string;
+  start_date?: string;
+  stop_date?: string;
+  executions: RunExecutionDetails[];
+}
+
+export interface RunExecutionDetails {
+  execution_id: number;
+  case_id: number;
+  /** Status name, e.g. PASSED */
+  status: string;
+  assignee?: number;
+  tested_by?: number;
+  start_date?: string;
+  stop_date?: string;
+  actual_duration?: number;
+}
+
 // Report formats
 export interface TestRunReport {
+  /** Executions whose status has a positive weight */
   pass: number;
+  /** Executions whose status has a negative weight (includes blocked and error) */
   fail: number;
   blocked: number;
   error: number;
+  /** Executions whose status has zero weight (idle, running, paused, ...) */
+  neutral: number;
   total: number;
+  by_status: Record<string, number>;
 }
 
 export interface JunitReport {
@@ -292,3 +625,21 @@ export interface JunitReport {
 export interface HtmlReport {
   content_b64: string;
 }
+
+// Dry runs and the audit log: the writes a mutating tool would send, or sent, to Kiwi TCMS
+export interface FieldChange {
+  from: any;
+  to: any;
+}
+
+export interface PlannedOperation {
+  /** `link` adds an existing object to another, e.g. a case to a plan. */
+  action: 'create' | 'update' | 'link';
+  entity: 'version' | 'build' | 'environment' | 'environment_property' | 'run' | 'execution' | 'case' | 'plan';
+  /** ID of the object an update targets; in the audit log also the ID a create returned. */
+  id?: number;
+  /** Request payload; objects created earlier in the plan are referenced as "<new run>" etc. */
+  data: Record<string, any>;
+  /** For updates, the fields whose value would change (before/after). */
+  changes?: Record<string, FieldChange>;
+}
@@ -0,0 +1,227 @@
+// Audit log for Kiwi TCMS MCP Server
+// Appends one JSON line per mutating tool call, with size-based rotation
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import { PlannedOperation } from '../types/index.js';
+import { serverConfig } from './config.js';
+import { Logger } from './logger.js';
+
+export interface AuditLogConfig {
+  /** JSONL file to append to; auditing is off without one. */
+  path?: string;
+  /** Rotate once the file would grow past this many bytes. */
+  maxBytes: number;
+  /** Rotated files kept next to the live one (path.1 is the newest). */
+  maxFiles: number;
+}
+
+/** Who made the call: the MCP session and the client it announced. */
+export interface AuditCaller {
+  session: string;
+  client?: string;
+}
+
+export interface AuditEntityRef {
+  type: string;
+  id: number;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  /** Matches the correlation ID on the call's log lines. */
+  correlation_id?: string;
+  tool: string;
+  instance: string;
+  caller: AuditCaller;
+  dry_run: boolean;
+  arguments: Record<string, any>;
+  /** Kiwi objects the call targeted or wrote. */
+  entities: AuditEntityRef[];
+  /** Writes actually sent to Kiwi TCMS, with before/after values for updates. */
+  operations: PlannedOperation[];
+  outcome: 'success' | 'error';
+  error?: { code: string; message: string };
+  duration_ms: number;
+}
+
+export interface AuditQuery {
+  entity_type?: string;
+  entity_id?: number;
+  tool?: string;
+  instance?: string;
+  session?: string;
+  outcome?: 'success' | 'error';
+  /** ISO 8601 timestamps; `since` is inclusive, `until` exclusive. */
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+// Argument names that identify a Kiwi object, and the object type
+const ENTITY_ARGUMENTS: Record<string, string> = {
+  product_id: 'product',
+  plan_id: 'plan',
+  parent_id: 'plan',
+  run_id: 'run',
+  case_id: 'case',
+  case_ids: 'case',
+  execution_id: 'execution',
+  build_id: 'build'
+};
+
+export function loadAuditLogConfig(): AuditLogConfig {
+  const { path, max_bytes: maxBytes, max_files: maxFiles } = serverConfig().audit;
+  return { path: path || undefined, maxBytes, maxFiles };
+}
+
+// Writes made by the tool call currently running, if it is being audited
+const currentWrites = new AsyncLocalStorage<PlannedOperation[]>();
+
+/** Run a tool call, collecting the writes KiwiApiClient reports into `writes`. */
+export function collectWrites<T>(writes: PlannedOperation[], fn: () => Promise<T>): Promise<T> {
+  return currentWrites.run(writes, fn);
+}
+
+/** Whether writes are being collected, i.e. whether the before state of an update is worth reading. */
+export function isCollectingWrites(): boolean {
+  return currentWrites.getStore() !== undefined;
+}
+
+/** Called by KiwiApiClient after each successful write. */
+export function recordWrite(operation: PlannedOperation): void {
+  currentWrites.getStore()?.push(operation);
+}
+
+/** Objects named in the arguments plus those written, without duplicates. */
+export function auditEntities(args: Record<string, any>, operations: PlannedOperation[]): AuditEntityRef[] {
+  const refs = new Map<string, AuditEntityRef>();
+  const add = (type: string, id: unknown) => {
+    if (typeof id === 'number') {
+      refs.set(`${type}:${id}`, { type, id });
+    }
+  };
+
+  for (const [argument, type] of Object.entries(ENTITY_ARGUMENTS)) {
+    const value = args[argument];
+    (Array.isArray(value) ? value : [value]).forEach(id => add(type, id));
+  }
+  for (const operation of operations) {
+    add(operation.entity, operation.id);
+  }
+  return [...refs.values()];
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  if (query.entity_type || query.entity_id !== undefined) {
+    const found = entry.entities.some(entity =>
+      (!query.entity_type || entity.type === query.entity_type) &&
+      (query.entity_id === undefined || entity.id === query.entity_id));
+    if (!found) return false;
+  }
+  return (!query.tool || entry.tool === query.tool) &&
+    (!query.instance || entry.instance === query.instance) &&
+    (!query.session || entry.caller.session === query.session) &&
+    (!query.outcome || entry.outcome === query.outcome) &&
+    (!query.since || entry.timestamp >= new Date(query.since).toISOString()) &&
+    (!query.until || entry.timestamp < new Date(query.until).toISOString());
+}
+
+export class AuditLog {
+  private logger: Logger;
+  private size?: number;
+  // Appends and rotations run one at a time so lines never interleave
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(readonly config: AuditLogConfig = loadAuditLogConfig()) {
+    this.logger = new Logger('AuditLog');
+  }
+
+  get enabled(): boolean {
+    return Boolean(this.config.path);
+  }
+
+  /**
+   * Append an entry, with arguments and payloads redacted like log output. A failed write
+   * is logged but never fails the tool call, whose effects already happened.
+   */
+  append(entry: AuditEntry): Promise<void> {
+    if (!this.config.path) {
+      return Promise.resolve();
+    }
+
+    const line = JSON.stringify(Logger.redactData(entry)) + '\n';
+    this.queue = this.queue
+      .then(() => this.write(line))
+      .catch(error => this.logger.error('Failed to write audit entry', error));
+    return this.queue;
+  }
+
+  private async write(line: string): Promise<void> {
+    const path = this.config.path!;
+    const bytes = Buffer.byteLength(line);
+
+    if (this.size === undefined) {
+      this.size = await fs.stat(path).then(stats => stats.size, () => 0);
+    }
+    if (this.size > 0 && this.size + bytes > this.config.maxBytes) {
+      await this.rotate(path);
+      this.size = 0;
+    }
+
+    await fs.appendFile(path, line, 'utf8');
+    this.size += bytes;
+  }
+
+  // audit.jsonl -> audit.jsonl.1 -> audit.jsonl.2 ...; the oldest beyond maxFiles is dropped
+  private async rotate(path: string): Promise<void> {
+    await fs.rm(`${path}.${this.config.maxFiles}`, { force: true });
+    for (let index = this.config.maxFiles - 1; index >= 1; index--) {
+      await fs.rename(`${path}.${index}`, `${path}.${index + 1}`).catch(() => undefined);
+    }
+    if (this.config.maxFiles > 0) {
+      await fs.rename(path, `${path}.1`);
+    } else {
+      await fs.rm(path, { force: true });
+    }
+    this.logger.info(`Rotated audit log ${path}`);
+  }
+
+  /** Matching entries across the live and rotated files, newest first. */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const path = this.config.path;
+    if (!path) {
+      return [];
+    }
+
+    // Let pending appends land first
+    await this.queue;
+
+    const limit = query.limit ?? 50;
+    const results: AuditEntry[] = [];
+    const files = [path, ...Array.from({ length: this.config.maxFiles }, (_, index) => `${path}.${index + 1}`)];
+
+    for (const file of files) {
+      const content = await fs.readFile(file, 'utf8').catch(() => undefined);
+      if (content === undefined) continue;
+
+      const lines = content.split('\n').filter(Boolean).reverse();
+      for (const line of lines) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          this.logger.warn(`Skipping unreadable audit line in ${file}`);
+          continue;
+        }
+        if (matches(entry, query)) {
+          results.push(entry);
+          if (results.length >= limit) {
+            return results;
+          }
+        }
+      }
+    }
+    return results;
+  }
+}
@@ -0,0 +1,128 @@
+// Lookup cache for Kiwi TCMS MCP Server
+// Short-lived, per-entity cache for reference data read through KiwiApiClient
+
+import { CacheEntity, CacheEntityStats, CacheStats } from '../types/index.js';
+
+export const CACHE_ENTITIES: CacheEntity[] = ['products', 'versions', 'plans', 'cases', 'builds', 'environments', 'tags', 'components', 'users'];
+
+/** Stable cache key for a list query, independent of property order. */
+export function queryKey(params: object): string {
+  const entries = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `list:${JSON.stringify(entries)}`;
+}
+
+interface CacheEntry {
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+export class LookupCache {
+  private entries = new Map<CacheEntity, Map<string, CacheEntry>>();
+  private counters = new Map<CacheEntity, { hits: number; misses: number; invalidations: number }>();
+
+  constructor(private ttls: Record<CacheEntity, number>, private enabled: boolean = true) {
+    for (const entity of CACHE_ENTITIES) {
+      this.entries.set(entity, new Map());
+      this.counters.set(entity, { hits: 0, misses: 0, invalidations: 0 });
+    }
+  }
+
+  private isCaching(entity: CacheEntity): boolean {
+    return this.enabled && this.ttls[entity] > 0;
+  }
+
+  /**
+   * Return the cached value for `key`, loading it on a miss. Concurrent
+   * misses for the same key share one load; failed loads are not cached.
+   * Callers get their own copy, so mutating a result never leaks back.
+   */
+  async get<T>(entity: CacheEntity, key: string, load: () => Promise<T>): Promise<T> {
+    if (!this.isCaching(entity)) {
+      return load();
+    }
+
+    const bucket = this.entries.get(entity)!;
+    const counters = this.counters.get(entity)!;
+    const cached = bucket.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      counters.hits++;
+      return structuredClone(await cached.value) as T;
+    }
+
+    counters.misses++;
+    const entry: CacheEntry = {
+      value: load(),
+      expiresAt: Date.now() + this.ttls[entity] * 1000
+    };
+    bucket.set(key, entry);
+
+    try {
+      return structuredClone(await entry.value) as T;
+    } catch (error) {
+      if (bucket.get(key) === entry) {
+        bucket.delete(key);
+      }
+      throw error;
+    }
+  }
+
+  /** Write-through: store a value the server just returned from a write. */
+  set<T>(entity: CacheEntity, key: string, value: T): void {
+    if (!this.isCaching(entity)) return;
+
+    this.entries.get(entity)!.set(key, {
+      value: Promise.resolve(structuredClone(value)),
+      expiresAt: Date.now() + this.ttls[entity] * 1000
+    });
+  }
+
+  /** Drop every entry of an entity, or only those whose key starts with `prefix`. */
+  invalidate(entity: CacheEntity, prefix?: string): void {
+    const bucket = this.entries.get(entity)!;
+    let dropped = 0;
+    for (const key of [...bucket.keys()]) {
+      if (prefix === undefined || key.startsWith(prefix)) {
+        bucket.delete(key);
+        dropped++;
+      }
+    }
+    if (dropped > 0) {
+      this.counters.get(entity)!.invalidations += dropped;
+    }
+  }
+
+  clear(): void {
+    for (const entity of CACHE_ENTITIES) {
+      this.invalidate(entity);
+    }
+  }
+
+  stats(): CacheStats {
+    const now = Date.now();
+    const entities = {} as Record<CacheEntity, CacheEntityStats>;
+    let hits = 0;
+    let misses = 0;
+
+    for (const entity of CACHE_ENTITIES) {
+      const counters = this.counters.get(entity)!;
+      const live = [...this.entries.get(entity)!.values()].filter(e => e.expiresAt > now);
+      entities[entity] = {
+        ttl_seconds: this.ttls[entity],
+        size: live.length,
+        ...counters
+      };
+      hits += counters.hits;
+      misses += counters.misses;
+    }
+
+    return {
+      enabled: this.enabled,
+      hits,
+      misses,
+      hit_rate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : 0,
+      entities
+    };
+  }
+}
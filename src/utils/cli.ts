@@ -0,0 +1,32 @@
+// Command-line options for Kiwi TCMS MCP Server
+
+import { ConfigOverrides } from './config.js';
+
+const OPTIONS: Array<keyof ConfigOverrides> = ['config', 'profile', 'transport', 'port', 'host'];
+
+/**
+ * Parse `--config FILE`, `--profile NAME`, `--transport stdio|http`,
+ * `--port N` and `--host H` (also accepted as `--flag=value`). The values
+ * are checked with the rest of the configuration, where flags win over the
+ * config file and MCP_TRANSPORT, PORT and HOST.
+ */
+export function parseCliOptions(argv: string[] = process.argv.slice(2)): ConfigOverrides {
+  const flags: ConfigOverrides = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+
+    const [name, inline] = arg.slice(2).split('=', 2);
+    if (!OPTIONS.includes(name as keyof ConfigOverrides)) {
+      throw new Error(`Unknown option: --${name} (expected ${OPTIONS.map(option => `--${option}`).join(', ')})`);
+    }
+    const value = inline ?? argv[++i];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${name}`);
+    }
+    flags[name as keyof ConfigOverrides] = value;
+  }
+  return flags;
+}
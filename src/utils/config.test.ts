@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { loadServerConfig } from './config.js';
+
+// Variables the config reads; cleared so the machine's own settings don't leak in
+const CONFIG_VARIABLES = /^(KIWI_|LOG_|MOCK_MODE$|MCP_TRANSPORT$|PORT$|HOST$|JIRA_|AWS_)/;
+
+const CONFIG_FILE = `
+retry:
+  max: 5
+cache:
+  ttl:
+    cases: 30
+tools:
+  deny: [kiwi.create_run, kiwi.update_case]
+instances:
+  - name: prod
+    base_url: https://kiwi.example.com
+    token: file-token
+profiles:
+  ci:
+    retry:
+      max: 1
+    tools:
+      deny: [kiwi.link_jira]
+    instances:
+      - name: prod
+        timeout_ms: 1000
+      - name: staging
+        base_url: https://staging.example.com
+`;
+
+describe('loadServerConfig', () => {
+  const saved = { ...process.env };
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    for (const name of Object.keys(process.env)) {
+      if (CONFIG_VARIABLES.test(name)) delete process.env[name];
+    }
+    dir = mkdtempSync(path.join(tmpdir(), 'kiwi-config-'));
+    file = path.join(dir, 'kiwi.yaml');
+    writeFileSync(file, CONFIG_FILE);
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('configures the default instance from the plain KIWI_* variables', () => {
+    process.env.KIWI_BASE_URL = 'https://kiwi.local';
+    process.env.KIWI_TOKEN = 'secret';
+
+    const { config, sources } = loadServerConfig();
+    assert.deepEqual(config.instances, [{ name: 'default', base_url: 'https://kiwi.local', token: 'secret' }]);
+    assert.equal(config.retry.max, 3);
+    assert.equal(config.server.transport, 'stdio');
+    assert.equal(sources['instances[0].base_url'], 'KIWI_BASE_URL');
+  });
+
+  it('layers defaults, file, profile, environment and command line, later sources winning', () => {
+    process.env.KIWI_RETRY_MAX_DELAY_MS = '100';
+    process.env.KIWI_PROD_TOKEN = 'env-token';
+
+    const { config, sources, profile } = loadServerConfig({ config: file, profile: 'ci', port: '9000' });
+    assert.equal(profile, 'ci');
+    assert.deepEqual(config.retry, { max: 1, base_delay_ms: 500, max_delay_ms: 100 });
+    assert.equal(config.cache.ttl.cases, 30);
+    assert.equal(config.cache.ttl.products, 600);
+    assert.equal(config.server.port, 9000);
+    assert.deepEqual(config.instances, [
+      { name: 'prod', base_url: 'https://kiwi.example.com', token: 'env-token', timeout_ms: 1000 },
+      { name: 'staging', base_url: 'https://staging.example.com' }
+    ]);
+
+    assert.equal(sources['retry.max'], `${file} profile ci`);
+    assert.equal(sources['retry.max_delay_ms'], 'KIWI_RETRY_MAX_DELAY_MS');
+    assert.equal(sources['cache.ttl.cases'], file);
+    assert.equal(sources['instances[0].token'], 'KIWI_PROD_TOKEN');
+    assert.equal(sources['server.port'], 'command line');
+  });
+
+  it('replaces lists instead of appending to them', () => {
+    assert.deepEqual(loadServerConfig({ config: file }).config.tools.deny, ['kiwi.create_run', 'kiwi.update_case']);
+    assert.deepEqual(loadServerConfig({ config: file, profile: 'ci' }).config.tools.deny, ['kiwi.link_jira']);
+  });
+
+  it('splits comma-separated list variables', () => {
+    process.env.KIWI_TOOLS_ALLOW = 'kiwi.list_*, kiwi.get_case,';
+    assert.deepEqual(loadServerConfig({ config: file }).config.tools.allow, ['kiwi.list_*', 'kiwi.get_case']);
+  });
+
+  it('reports invalid settings with the source that set them', () => {
+    process.env.KIWI_RETRY_MAX = '-1';
+    process.env.LOG_LEVEL = 'chatty';
+    assert.throws(() => loadServerConfig({ config: file }), (error: Error) =>
+      error.message.includes('retry.max must be >= 0 (KIWI_RETRY_MAX)') &&
+      error.message.includes('logging.level must be one of') &&
+      error.message.includes('(LOG_LEVEL)'));
+  });
+
+  it('rejects an unknown profile', () => {
+    assert.throws(() => loadServerConfig({ config: file, profile: 'nightly' }),
+      /Unknown profile nightly in .* \(available: ci\)/);
+  });
+
+  it('rejects a default limit above the maximum', () => {
+    process.env.KIWI_DEFAULT_LIMIT = '500';
+    process.env.KIWI_MAX_LIMIT = '100';
+    assert.throws(() => loadServerConfig({ config: file }),
+      /tools.default_limit 500 exceeds tools.max_limit 100 \(KIWI_DEFAULT_LIMIT\)/);
+  });
+
+  it('requires at least one instance', () => {
+    assert.throws(() => loadServerConfig(), /No Kiwi TCMS instance configured/);
+  });
+});
@@ -0,0 +1,545 @@
+// Server configuration for Kiwi TCMS MCP Server
+// Typed settings merged from defaults, a JSON/YAML file, a named profile, the environment and CLI flags
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AUTH_MODES } from '../auth/index.js';
+import { TRANSPORT_KINDS } from '../transports/index.js';
+import { LOG_FORMATS, LOG_LEVELS } from './logger.js';
+import { FromSchema, JsonSchema, validateSchema } from './schema.js';
+
+/** Reported in the MCP handshake and by kiwi.server_info. */
+export const SERVER_NAME = 'kiwi-tcms-mcp-server';
+export const SERVER_VERSION = '1.0.0';
+
+export const SERVER_TRANSPORTS = ['stdio', 'http'] as const;
+
+const INSTANCE_NAME = '^[A-Za-z][A-Za-z0-9_-]*$';
+
+/** Instance configured by the plain KIWI_* variables when KIWI_INSTANCES is unset. */
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+const instanceSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', pattern: INSTANCE_NAME },
+    base_url: { type: 'string', minLength: 1 },
+    auth: { type: 'string', enum: AUTH_MODES },
+    token: { type: 'string' },
+    token_file: { type: 'string' },
+    username: { type: 'string' },
+    password: { type: 'string' },
+    transport: { type: 'string', enum: TRANSPORT_KINDS },
+    mock_fixture: { type: 'string' },
+    timeout_ms: { type: 'integer', minimum: 1 },
+    /** The server deduplicates writes by Idempotency-Key, so keyed writes may be retried. */
+    idempotency_keys: { type: 'boolean' }
+  },
+  required: ['name', 'base_url'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+const nonNegative = { type: 'integer', minimum: 0 } as const;
+const positive = { type: 'integer', minimum: 1 } as const;
+const patterns = { type: 'array', items: { type: 'string', minLength: 1 } } as const;
+
+export const serverConfigSchema = {
+  type: 'object',
+  properties: {
+    instances: { type: 'array', items: instanceSchema },
+    default_instance: { type: 'string' },
+    /** API transport for instances that don't set their own. */
+    transport: { type: 'string', enum: TRANSPORT_KINDS },
+    /** Serve every instance from the in-memory mock backend. */
+    mock: { type: 'boolean' },
+    request: {
+      type: 'object',
+      properties: { timeout_ms: positive, page_size: positive, max_fetch_items: positive },
+      required: ['timeout_ms', 'page_size', 'max_fetch_items'],
+      additionalProperties: false
+    },
+    retry: {
+      type: 'object',
+      properties: { max: nonNegative, base_delay_ms: nonNegative, max_delay_ms: nonNegative },
+      required: ['max', 'base_delay_ms', 'max_delay_ms'],
+      additionalProperties: false
+    },
+    cache: {
+      type: 'object',
+      properties: {
+        enabled: { type: 'boolean' },
+        // Seconds per entity (see CACHE_ENTITIES); 0 disables caching it
+        ttl: {
+          type: 'object',
+          properties: {
+            products: nonNegative,
+            versions: nonNegative,
+            plans: nonNegative,
+            cases: nonNegative,
+            builds: nonNegative,
+            environments: nonNegative,
+            tags: nonNegative,
+            components: nonNegative,
+            users: nonNegative
+          },
+          required: ['products', 'versions', 'plans', 'cases', 'builds', 'environments', 'tags', 'components', 'users'],
+          additionalProperties: false
+        }
+      },
+      required: ['enabled', 'ttl'],
+      additionalProperties: false
+    },
+    tools: {
+      type: 'object',
+      properties: {
+        coerce_arguments: { type: 'boolean' },
+        read_only: { type: 'boolean' },
+        allow: patterns,
+        deny: patterns,
+        plugins: patterns,
+        default_limit: { type: 'integer', minimum: 1, maximum: 1000 },
+        max_limit: { type: 'integer', minimum: 1, maximum: 1000 }
+      },
+      required: ['coerce_arguments', 'read_only', 'allow', 'deny', 'plugins', 'default_limit', 'max_limit'],
+      additionalProperties: false
+    },
+    audit: {
+      type: 'object',
+      properties: { path: { type: 'string' }, max_bytes: positive, max_files: nonNegative },
+      required: ['max_bytes', 'max_files'],
+      additionalProperties: false
+    },
+    logging: {
+      type: 'object',
+      properties: {
+        level: { type: 'string', enum: LOG_LEVELS },
+        format: { type: 'string', enum: LOG_FORMATS },
+        file: { type: 'string' }
+      },
+      required: ['level', 'format'],
+      additionalProperties: false
+    },
+    server: {
+      type: 'object',
+      properties: {
+        transport: { type: 'string', enum: SERVER_TRANSPORTS },
+        port: { type: 'integer', minimum: 1, maximum: 65535 },
+        host: { type: 'string', minLength: 1 }
+      },
+      required: ['transport', 'port', 'host'],
+      additionalProperties: false
+    },
+    jira: {
+      type: 'object',
+      properties: { url: { type: 'string' }, email: { type: 'string' }, api_token: { type: 'string' } },
+      additionalProperties: false
+    },
+    storage: {
+      type: 'object',
+      properties: {
+        s3_bucket: { type: 'string' },
+        region: { type: 'string' },
+        access_key_id: { type: 'string' },
+        secret_access_key: { type: 'string' }
+      },
+      additionalProperties: false
+    }
+  },
+  required: ['instances', 'mock', 'transport', 'request', 'retry', 'cache', 'tools', 'audit', 'logging', 'server', 'jira', 'storage'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+export type ServerConfig = FromSchema<typeof serverConfigSchema>;
+export type InstanceSettings = FromSchema<typeof instanceSchema>;
+
+const DEFAULTS: ServerConfig = {
+  instances: [],
+  transport: 'rest',
+  mock: false,
+  request: { timeout_ms: 30000, page_size: 100, max_fetch_items: 10000 },
+  retry: { max: 3, base_delay_ms: 500, max_delay_ms: 30000 },
+  cache: {
+    enabled: true,
+    // Reference data that rarely changes lives longer than records agents edit
+    ttl: { products: 600, versions: 600, plans: 120, cases: 60, builds: 300, environments: 600, tags: 300, components: 600, users: 600 }
+  },
+  tools: {
+    coerce_arguments: false,
+    read_only: false,
+    allow: [],
+    deny: [],
+    plugins: [],
+    default_limit: 50,
+    max_limit: 1000
+  },
+  audit: { max_bytes: 10 * 1024 * 1024, max_files: 5 },
+  logging: { level: 'INFO', format: 'text' },
+  server: { transport: 'stdio', port: 8184, host: '127.0.0.1' },
+  jira: {},
+  storage: {}
+};
+
+// Environment variables and the setting each overrides; lists are comma-separated
+const ENV_SETTINGS: Array<[env: string, setting: string, list?: 'list']> = [
+  ['KIWI_TRANSPORT', 'transport'],
+  ['MOCK_MODE', 'mock'],
+  ['KIWI_DEFAULT_INSTANCE', 'default_instance'],
+  ['KIWI_TIMEOUT_MS', 'request.timeout_ms'],
+  ['KIWI_PAGE_SIZE', 'request.page_size'],
+  ['KIWI_MAX_FETCH_ITEMS', 'request.max_fetch_items'],
+  ['KIWI_RETRY_MAX', 'retry.max'],
+  ['KIWI_RETRY_BASE_DELAY_MS', 'retry.base_delay_ms'],
+  ['KIWI_RETRY_MAX_DELAY_MS', 'retry.max_delay_ms'],
+  ['KIWI_CACHE_ENABLED', 'cache.enabled'],
+  ...Object.keys(DEFAULTS.cache.ttl).map(entity =>
+    [`KIWI_CACHE_TTL_${entity.toUpperCase()}`, `cache.ttl.${entity}`] as [string, string]),
+  ['KIWI_COERCE_ARGUMENTS', 'tools.coerce_arguments'],
+  ['KIWI_READ_ONLY', 'tools.read_only'],
+  ['KIWI_TOOLS_ALLOW', 'tools.allow', 'list'],
+  ['KIWI_TOOLS_DENY', 'tools.deny', 'list'],
+  ['KIWI_TOOL_PLUGINS', 'tools.plugins', 'list'],
+  ['KIWI_DEFAULT_LIMIT', 'tools.default_limit'],
+  ['KIWI_MAX_LIMIT', 'tools.max_limit'],
+  ['KIWI_AUDIT_LOG', 'audit.path'],
+  ['KIWI_AUDIT_MAX_BYTES', 'audit.max_bytes'],
+  ['KIWI_AUDIT_MAX_FILES', 'audit.max_files'],
+  ['LOG_LEVEL', 'logging.level'],
+  ['LOG_FORMAT', 'logging.format'],
+  ['LOG_FILE', 'logging.file'],
+  ['MCP_TRANSPORT', 'server.transport'],
+  ['PORT', 'server.port'],
+  ['HOST', 'server.host'],
+  ['JIRA_URL', 'jira.url'],
+  ['JIRA_EMAIL', 'jira.email'],
+  ['JIRA_API_TOKEN', 'jira.api_token'],
+  ['AWS_S3_BUCKET', 'storage.s3_bucket'],
+  ['AWS_REGION', 'storage.region'],
+  ['AWS_ACCESS_KEY_ID', 'storage.access_key_id'],
+  ['AWS_SECRET_ACCESS_KEY', 'storage.secret_access_key']
+];
+
+// Per-instance variables, after the instance prefix (KIWI_<NAME>_)
+const INSTANCE_ENV_SETTINGS: Record<string, keyof InstanceSettings> = {
+  BASE_URL: 'base_url',
+  AUTH: 'auth',
+  TOKEN: 'token',
+  TOKEN_FILE: 'token_file',
+  USERNAME: 'username',
+  PASSWORD: 'password',
+  TRANSPORT: 'transport',
+  MOCK_FIXTURE: 'mock_fixture',
+  TIMEOUT_MS: 'timeout_ms',
+  IDEMPOTENCY_KEYS: 'idempotency_keys'
+};
+
+// KIWI_TRANSPORT and KIWI_TIMEOUT_MS are global settings, not the default instance's own
+const GLOBAL_INSTANCE_SUFFIXES = ['TRANSPORT', 'TIMEOUT_MS'];
+
+/** Settings given on the command line; they win over every other source. */
+export interface ConfigOverrides {
+  /** Config file (otherwise KIWI_CONFIG). */
+  config?: string;
+  /** Profile to apply (otherwise KIWI_PROFILE). */
+  profile?: string;
+  transport?: string;
+  port?: string;
+  host?: string;
+}
+
+export interface LoadedServerConfig {
+  config: ServerConfig;
+  file?: string;
+  profile?: string;
+  /** Where each setting that differs from its default came from, by setting path. */
+  sources: Record<string, string>;
+}
+
+function env(name: string): string | undefined {
+  const value = process.env[name];
+  return value === undefined || value.trim() === '' ? undefined : value;
+}
+
+/**
+ * Env var prefix for a named instance: "partner-eu" reads KIWI_PARTNER_EU_*.
+ * Without KIWI_INSTANCES the "default" instance reads the plain KIWI_* names.
+ */
+export function instanceEnvPrefix(name: string): string {
+  if (name === DEFAULT_INSTANCE_NAME && !env('KIWI_INSTANCES')) {
+    return 'KIWI_';
+  }
+  return `KIWI_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+function setPath(target: Record<string, any>, setting: string, value: unknown): void {
+  const keys = setting.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    node = node[key] ||= {};
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Merge `layer` into `target`, recording `source` for every setting it
+ * touches. Objects merge key by key and instances by name; other values,
+ * lists included, replace what was there.
+ */
+function mergeLayer(
+  target: Record<string, any>,
+  layer: Record<string, any>,
+  source: string,
+  sources: Map<string, string>,
+  prefix = ''
+): void {
+  for (const [key, value] of Object.entries(layer)) {
+    const setting = prefix ? `${prefix}.${key}` : key;
+
+    if (setting === 'instances' && Array.isArray(value) && Array.isArray(target.instances)) {
+      for (const instance of value) {
+        const index = isObject(instance) && instance.name !== undefined
+          ? target.instances.findIndex((existing: any) => existing?.name === instance.name)
+          : -1;
+        if (index >= 0) {
+          // The name only identifies the instance to merge into
+          const { name, ...fields } = instance;
+          mergeLayer(target.instances[index], fields, source, sources, `instances[${index}]`);
+        } else {
+          target.instances.push(isObject(instance) ? { ...instance } : instance);
+          const added = `instances[${target.instances.length - 1}]`;
+          sources.set(added, source);
+          if (isObject(instance)) {
+            Object.keys(instance).forEach(field => sources.set(`${added}.${field}`, source));
+          }
+        }
+      }
+    } else if (isObject(value) && isObject(target[key])) {
+      mergeLayer(target[key], value, source, sources, setting);
+    } else {
+      target[key] = isObject(value) ? clone(value) : value;
+      sources.set(setting, source);
+    }
+  }
+}
+
+// Where a reported setting came from: the setting itself, else its closest parent
+function sourceOf(setting: string, sources: Map<string, string>): string {
+  for (let current = setting; current; current = current.replace(/(\.[^.[\]]+|\[\d+\])$/, '')) {
+    const source = sources.get(current);
+    if (source) return source;
+    if (!/[.[]/.test(current)) break;
+  }
+  return 'default';
+}
+
+function readConfigFile(file: string): Record<string, any> {
+  const ext = path.extname(file).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(ext)) {
+    throw new Error(`Unsupported config file ${file} (expected .json, .yaml or .yml)`);
+  }
+
+  let parsed: unknown;
+  try {
+    const raw = readFileSync(file, 'utf8');
+    parsed = ext === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error) {
+    throw new Error(`Cannot read config file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isObject(parsed)) {
+    throw new Error(`Invalid config file ${file}: expected an object of settings at the top level`);
+  }
+  return parsed;
+}
+
+interface EnvironmentLayer {
+  settings: Record<string, any>;
+  /** Variable behind each setting, by setting path. */
+  variables: Record<string, string>;
+  /** Variable behind each instance field, by instance name and field. */
+  instanceVariables: Record<string, Record<string, string>>;
+}
+
+function environmentLayer(instanceNames: string[]): EnvironmentLayer {
+  const settings: Record<string, any> = {};
+  const variables: Record<string, string> = {};
+  const instanceVariables: Record<string, Record<string, string>> = {};
+  for (const [name, setting, list] of ENV_SETTINGS) {
+    const value = env(name);
+    if (value !== undefined) {
+      setPath(settings, setting, list ? value.split(',').map(item => item.trim()).filter(Boolean) : value);
+      variables[setting] = name;
+    }
+  }
+
+  const instances = instanceNames.map(name => {
+    const instance: Record<string, string> = { name };
+    const prefix = instanceEnvPrefix(name);
+    for (const [suffix, field] of Object.entries(INSTANCE_ENV_SETTINGS)) {
+      if (prefix === 'KIWI_' && GLOBAL_INSTANCE_SUFFIXES.includes(suffix)) continue;
+      const value = env(`${prefix}${suffix}`);
+      if (value !== undefined) {
+        instance[field] = value;
+        (instanceVariables[name] ||= {})[field] = `${prefix}${suffix}`;
+      }
+    }
+    return instance;
+  }).filter(instance => Object.keys(instance).length > 1);
+
+  if (instances.length > 0) {
+    settings.instances = instances;
+  }
+  return { settings, variables, instanceVariables };
+}
+
+// Instances the environment may configure: those the file names, the ones
+// listed in KIWI_INSTANCES, or else the single "default" instance
+function environmentInstanceNames(fileInstances: unknown[]): string[] {
+  const names = fileInstances
+    .map(instance => (isObject(instance) ? instance.name : undefined))
+    .filter((name): name is string => typeof name === 'string');
+
+  const listed = env('KIWI_INSTANCES');
+  if (listed) {
+    const seen = new Set(names.map(name => name.toLowerCase()));
+    for (const name of listed.split(',').map(item => item.trim()).filter(Boolean)) {
+      if (!new RegExp(INSTANCE_NAME).test(name)) {
+        throw new Error(`Invalid instance name in KIWI_INSTANCES: ${name} (use letters, digits, - and _)`);
+      }
+      if (!names.includes(name) && seen.has(name.toLowerCase())) {
+        throw new Error(`Duplicate instance name in KIWI_INSTANCES: ${name}`);
+      }
+      if (!names.includes(name)) {
+        names.push(name);
+        seen.add(name.toLowerCase());
+      }
+    }
+    return names;
+  }
+
+  if (names.length === 0) {
+    return [DEFAULT_INSTANCE_NAME];
+  }
+  if (names.includes(DEFAULT_INSTANCE_NAME)) {
+    return names;
+  }
+
+  const unprefixed = Object.keys(INSTANCE_ENV_SETTINGS)
+    .filter(suffix => !GLOBAL_INSTANCE_SUFFIXES.includes(suffix))
+    .map(suffix => `KIWI_${suffix}`)
+    .filter(name => env(name) !== undefined);
+  if (unprefixed.length > 0) {
+    throw new Error(
+      `${unprefixed.join(', ')} configure the instance named "${DEFAULT_INSTANCE_NAME}", but the config file defines ` +
+      `${names.join(', ')}; use KIWI_<NAME>_* variables (e.g. ${instanceEnvPrefix(names[0])}TOKEN) instead`
+    );
+  }
+  return names;
+}
+
+function cliLayer(overrides: ConfigOverrides): Record<string, any> {
+  const layer: Record<string, any> = {};
+  for (const key of ['transport', 'port', 'host'] as const) {
+    if (overrides[key] !== undefined) {
+      setPath(layer, `server.${key}`, overrides[key]);
+    }
+  }
+  return layer;
+}
+
+let current: LoadedServerConfig | undefined;
+
+/**
+ * Build the effective configuration and make it current. Later sources win:
+ * defaults, the config file, its profile, the environment, then CLI flags.
+ * Every problem is reported at once, each with the source that set it.
+ */
+export function loadServerConfig(overrides: ConfigOverrides = {}): LoadedServerConfig {
+  const sources = new Map<string, string>();
+  const merged: Record<string, any> = clone(DEFAULTS);
+  const file = overrides.config || env('KIWI_CONFIG');
+  const profile = overrides.profile || env('KIWI_PROFILE');
+
+  if (file) {
+    const { profiles, ...base } = readConfigFile(file);
+    mergeLayer(merged, base, file, sources);
+
+    if (profiles !== undefined && !isObject(profiles)) {
+      throw new Error(`Invalid config file ${file}: profiles must map profile names to settings`);
+    }
+    if (profile) {
+      const selected = profiles?.[profile];
+      if (!isObject(selected)) {
+        const available = Object.keys(profiles || {});
+        throw new Error(`Unknown profile ${profile} in ${file}` +
+          (available.length > 0 ? ` (available: ${available.join(', ')})` : ' (it defines no profiles)'));
+      }
+      mergeLayer(merged, selected, `${file} profile ${profile}`, sources);
+    }
+  } else if (profile) {
+    throw new Error(`Profile ${profile} was requested but no config file is set (use --config or KIWI_CONFIG)`);
+  }
+
+  const fileInstances = Array.isArray(merged.instances) ? merged.instances : [];
+  const environment = environmentLayer(environmentInstanceNames(fileInstances));
+  mergeLayer(merged, environment.settings, 'environment', sources);
+  // Name the variable, not just "environment", wherever a setting came from one
+  for (const [setting, variable] of Object.entries(environment.variables)) {
+    sources.set(setting, variable);
+  }
+  for (const [instance, fields] of Object.entries(environment.instanceVariables)) {
+    const index = merged.instances.findIndex((existing: any) => existing?.name === instance);
+    for (const [field, variable] of Object.entries(fields)) {
+      sources.set(`instances[${index}].${field}`, variable);
+    }
+  }
+  mergeLayer(merged, cliLayer(overrides), 'command line', sources);
+
+  // Levels and formats are matched case-insensitively, like before
+  if (typeof merged.logging?.level === 'string') merged.logging.level = merged.logging.level.toUpperCase();
+  if (typeof merged.logging?.format === 'string') merged.logging.format = merged.logging.format.toLowerCase();
+
+  const { value, errors } = validateSchema<ServerConfig>(serverConfigSchema, merged, { coerce: true });
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n${errors
+      .map(error => `  - ${error.path} ${error.message} (${sourceOf(error.path, sources)})`)
+      .join('\n')}`);
+  }
+
+  if (value.instances.length === 0) {
+    throw new Error('No Kiwi TCMS instance configured: set KIWI_BASE_URL and KIWI_TOKEN, ' +
+      'or list instances in the config file (--config or KIWI_CONFIG)');
+  }
+  if (value.tools.default_limit > value.tools.max_limit) {
+    throw new Error(`Invalid configuration: tools.default_limit ${value.tools.default_limit} exceeds ` +
+      `tools.max_limit ${value.tools.max_limit} (${sourceOf('tools.default_limit', sources)})`);
+  }
+
+  const labels: Record<string, string> = {};
+  for (const [setting, source] of sources) {
+    labels[setting] = source;
+  }
+  current = { config: value, file, profile, sources: labels };
+  return current;
+}
+
+/** The current configuration, loaded from the environment on first use. */
+export function serverConfig(): ServerConfig {
+  return (current ?? loadServerConfig()).config;
+}
+
+/** The current configuration with where it came from, for kiwi.server_info. */
+export function loadedServerConfig(): LoadedServerConfig {
+  return current ?? loadServerConfig();
+}
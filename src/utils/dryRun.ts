@@ -0,0 +1,39 @@
+// Dry-run helpers for Kiwi TCMS MCP Server
+
+import { FieldChange, PlannedOperation, ToolResult } from '../types/index.js';
+
+/** Placeholder for the ID of an object created earlier in the same plan. */
+export function newObjectRef(entity: PlannedOperation['entity']): string {
+  return `<new ${entity}>`;
+}
+
+/** Fields of `update` whose value differs from the current object. */
+export function fieldChanges(current: Record<string, any>, update: Record<string, any>): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  for (const [field, value] of Object.entries(update)) {
+    const before = current[field] ?? null;
+    if (JSON.stringify(before) !== JSON.stringify(value ?? null)) {
+      changes[field] = { from: before, to: value };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Tool output of a dry run: the operations in the order they would be
+ * sent, plus tool-specific details. Nothing has been written.
+ */
+export function dryRunResult(operations: PlannedOperation[], details: Record<string, any> = {}): ToolResult {
+  const counts: Record<string, number> = {};
+  for (const operation of operations) {
+    const key = `${operation.action}_${operation.entity}`;
+    counts[key] = (counts[key] || 0) + 1;
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({ dry_run: true, ...details, operation_counts: counts, operations }, null, 2)
+    }]
+  };
+}
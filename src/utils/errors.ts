@@ -0,0 +1,139 @@
+// Error classes for Kiwi TCMS MCP Server
+
+import { KiwiErrorCode, ToolResult } from '../types/index.js';
+
+export interface KiwiApiErrorOptions {
+  upstreamStatus?: number;
+  kiwiResponse?: any;
+  fieldErrors?: Record<string, string[]>;
+  /** Actionable next step shown to the agent, overriding the default for the error code. */
+  hint?: string;
+}
+
+const DEFAULT_HINTS: Record<KiwiErrorCode, string> = {
+  NOT_FOUND: 'Check the ID; the list tools (kiwi.list_products, kiwi.list_plans, kiwi.list_cases) return valid IDs.',
+  VALIDATION: 'Correct the arguments named in the message (or field_errors) and call the tool again.',
+  FORBIDDEN: 'Check the Kiwi TCMS credentials and that the account has permission for this operation.',
+  CONFLICT: 'The object already exists or changed concurrently; re-read it before retrying.',
+  RATE_LIMIT: 'Kiwi TCMS is throttling requests; wait before calling the tool again.',
+  UPSTREAM_ERROR: 'Kiwi TCMS failed to handle the request; retry later or check the server logs.'
+};
+
+/**
+ * Base class for every failure reported by Kiwi TCMS or detected while
+ * preparing a request for it. Keeps the upstream status and response so
+ * they can be surfaced to the agent.
+ */
+export class KiwiApiError extends Error {
+  readonly code: KiwiErrorCode;
+  readonly upstream_status?: number;
+  readonly field_errors?: Record<string, string[]>;
+  readonly kiwi_response?: any;
+  readonly hint: string;
+
+  constructor(code: KiwiErrorCode, message: string, options: KiwiApiErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.upstream_status = options.upstreamStatus;
+    this.field_errors = options.fieldErrors;
+    this.kiwi_response = options.kiwiResponse;
+    this.hint = options.hint || DEFAULT_HINTS[code];
+  }
+}
+
+export class KiwiNotFoundError extends KiwiApiError {
+  constructor(message: string, options?: KiwiApiErrorOptions) {
+    super('NOT_FOUND', message, options);
+  }
+}
+
+export class KiwiValidationError extends KiwiApiError {
+  constructor(message: string, options?: KiwiApiErrorOptions) {
+    super('VALIDATION', message, options);
+  }
+}
+
+export class KiwiForbiddenError extends KiwiApiError {
+  constructor(message: string, options?: KiwiApiErrorOptions) {
+    super('FORBIDDEN', message, options);
+  }
+}
+
+export class KiwiConflictError extends KiwiApiError {
+  constructor(message: string, options?: KiwiApiErrorOptions) {
+    super('CONFLICT', message, options);
+  }
+}
+
+export class KiwiRateLimitError extends KiwiApiError {
+  constructor(message: string, options?: KiwiApiErrorOptions) {
+    super('RATE_LIMIT', message, options);
+  }
+}
+
+export class KiwiUpstreamError extends KiwiApiError {
+  constructor(message: string, options?: KiwiApiErrorOptions) {
+    super('UPSTREAM_ERROR', message, options);
+  }
+}
+
+const ERROR_CLASSES: Record<KiwiErrorCode, new (message: string, options?: KiwiApiErrorOptions) => KiwiApiError> = {
+  NOT_FOUND: KiwiNotFoundError,
+  VALIDATION: KiwiValidationError,
+  FORBIDDEN: KiwiForbiddenError,
+  CONFLICT: KiwiConflictError,
+  RATE_LIMIT: KiwiRateLimitError,
+  UPSTREAM_ERROR: KiwiUpstreamError
+};
+
+export function createKiwiApiError(code: KiwiErrorCode, message: string, options?: KiwiApiErrorOptions): KiwiApiError {
+  return new ERROR_CLASSES[code](message, options);
+}
+
+/**
+ * Pull field-level messages out of a Django REST Framework style
+ * `{ field: ["message", ...] }` error body.
+ */
+export function extractFieldErrors(data: any): Record<string, string[]> | undefined {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return undefined;
+
+  const fields: Record<string, string[]> = {};
+  for (const [field, messages] of Object.entries(data)) {
+    if (field === 'detail' || field === 'message' || field === 'error') continue;
+    if (Array.isArray(messages) && messages.every(m => typeof m === 'string')) {
+      fields[field] = messages as string[];
+    } else if (typeof messages === 'string') {
+      fields[field] = [messages];
+    }
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+/**
+ * Convert any failure into a structured MCP tool error. Kiwi errors keep
+ * their code, upstream status, field errors and hint; anything else is
+ * reported as an internal error with its message.
+ */
+export function toToolError(tool: string, error: unknown): ToolResult {
+  const body = error instanceof KiwiApiError
+    ? {
+        code: error.code,
+        message: error.message,
+        upstream_status: error.upstream_status,
+        field_errors: error.field_errors,
+        hint: error.hint
+      }
+    : {
+        code: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({ tool, error: body }, null, 2)
+    }],
+    isError: true
+  };
+}
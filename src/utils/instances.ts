@@ -0,0 +1,91 @@
+// Instance profile loading for Kiwi TCMS MCP Server
+
+import { KiwiAuthConfig, KiwiAuthMode, KiwiInstanceConfig, KiwiTransportKind } from '../types/index.js';
+import { InstanceSettings, ServerConfig, instanceEnvPrefix, serverConfig } from './config.js';
+
+function buildAuthConfig(settings: InstanceSettings, prefix: string): KiwiAuthConfig {
+  const { name, token, token_file: tokenFile, username, password } = settings;
+
+  // Without an explicit mode, pick the one whose credentials are present
+  const mode: KiwiAuthMode = settings.auth || (tokenFile ? 'token_file' : password ? 'session' : 'token');
+
+  switch (mode) {
+    case 'token':
+      if (!token || token.trim().length === 0) {
+        throw new Error(`Missing credentials for instance ${name}: token (${prefix}TOKEN), ` +
+          `token_file (${prefix}TOKEN_FILE), or username and password (${prefix}USERNAME and ${prefix}PASSWORD)`);
+      }
+      return { mode, token };
+    case 'token_file':
+      if (!tokenFile) {
+        throw new Error(`Instance ${name} uses auth token_file but has no token_file (${prefix}TOKEN_FILE)`);
+      }
+      return { mode, path: tokenFile };
+    case 'session':
+      if (!username || !password) {
+        throw new Error(`Instance ${name} uses auth session but lacks username and password ` +
+          `(${prefix}USERNAME and ${prefix}PASSWORD)`);
+      }
+      return { mode, username, password };
+  }
+}
+
+function buildInstanceConfig(settings: InstanceSettings, config: ServerConfig): KiwiInstanceConfig {
+  const prefix = instanceEnvPrefix(settings.name);
+
+  try {
+    new URL(settings.base_url);
+  } catch (error) {
+    throw new Error(`Invalid base_url for instance ${settings.name} (${prefix}BASE_URL): ${settings.base_url}`);
+  }
+
+  const auth = buildAuthConfig(settings, prefix);
+
+  // Mock mode applies to every instance; otherwise an instance may set its
+  // own transport and falls back to the global one
+  const mockToken = auth.mode === 'token' && auth.token === 'MOCK_MODE_FOR_TESTING';
+  const transport: KiwiTransportKind = config.mock || mockToken ? 'mock' : settings.transport || config.transport;
+
+  return {
+    name: settings.name,
+    baseUrl: settings.base_url,
+    auth,
+    transport,
+    username: settings.username,
+    mockFixture: settings.mock_fixture,
+    timeoutMs: settings.timeout_ms ?? config.request.timeout_ms,
+    idempotencyKeys: settings.idempotency_keys ?? false
+  };
+}
+
+/**
+ * The configured Kiwi TCMS instances: those listed in the config file plus,
+ * from the environment, the names in KIWI_INSTANCES (each reading
+ * KIWI_<NAME>_BASE_URL, _AUTH, _TOKEN, ...) or else a single "default"
+ * instance from KIWI_BASE_URL plus credentials.
+ */
+export function loadInstanceConfigs(config: ServerConfig = serverConfig()): KiwiInstanceConfig[] {
+  const seen = new Set<string>();
+  for (const { name } of config.instances) {
+    if (seen.has(name.toLowerCase())) {
+      throw new Error(`Duplicate instance name: ${name} (names are case-insensitive)`);
+    }
+    seen.add(name.toLowerCase());
+  }
+
+  return config.instances.map(settings => buildInstanceConfig(settings, config));
+}
+
+/** The instance tools use when no `instance` argument is given. */
+export function defaultInstanceName(configs: KiwiInstanceConfig[], config: ServerConfig = serverConfig()): string {
+  const configured = config.default_instance;
+  if (configured) {
+    if (!configs.some(c => c.name === configured)) {
+      throw new Error(
+        `Default instance ${configured} (KIWI_DEFAULT_INSTANCE) is not one of the configured instances: ${configs.map(c => c.name).join(', ')}`
+      );
+    }
+    return configured;
+  }
+  return configs[0].name;
+}
@@ -1,47 +1,182 @@
 // Logger utility for Kiwi TCMS MCP Server
+// Never writes to stdout: on the stdio transport that is the MCP protocol channel
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { closeSync, openSync, writeSync } from 'fs';
+
+export const LOG_LEVELS = ['DEBUG', 'INFO', 'WARN', 'ERROR', 'SILENT'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+export interface LogConfig {
+  /** Least severe level written; SILENT turns logging off. */
+  level: LogLevel;
+  /** `text` for people, `json` for one JSON object per line. */
+  format: LogFormat;
+  /** Append to this file instead of stderr. */
+  file?: string;
+}
+
+// Object keys whose values are always masked, whatever they contain
+const SENSITIVE_KEY = /password|passwd|secret|token|authorization|cookie|session_?id|api_?key|access_?key/i;
+const REDACTED = '[REDACTED]';
+
+// Credentials recognisable by shape, wherever they appear in a message or value
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(Bearer|Token|Basic) [A-Za-z0-9._~+/=-]{20,}/g, `$1 ${REDACTED}`],
+  [/(\/\/[^/\s:@]+:)[^@\s/]+@/g, `$1${REDACTED}@`],
+  [/\b(sessionid|csrftoken)=[^;\s"]+/gi, `$1=${REDACTED}`]
+];
+
+export function loadLogConfig(): LogConfig {
+  const level = (process.env.LOG_LEVEL || 'INFO').toUpperCase();
+  const format = (process.env.LOG_FORMAT || 'text').toLowerCase();
+  return {
+    level: LOG_LEVELS.includes(level as LogLevel) ? level as LogLevel : 'INFO',
+    format: LOG_FORMATS.includes(format as LogFormat) ? format as LogFormat : 'text',
+    file: process.env.LOG_FILE || undefined
+  };
+}
 
 export class Logger {
+  private static secrets = new Set<string>();
+  private static config?: LogConfig;
+  private static fd?: number;
+  private static correlation = new AsyncLocalStorage<string>();
   private component: string;
 
   constructor(component: string) {
     this.component = component;
   }
 
-  private formatMessage(level: string, message: string, data?: any): string {
+  /**
+   * Replace the output settings (read from LOG_LEVEL, LOG_FORMAT and
+   * LOG_FILE on first use otherwise).
+   */
+  static configure(config: LogConfig): void {
+    if (Logger.fd !== undefined) {
+      closeSync(Logger.fd);
+      Logger.fd = undefined;
+    }
+    Logger.config = config;
+    if (config.file) {
+      try {
+        Logger.fd = openSync(config.file, 'a');
+      } catch (error) {
+        // Logging must never take the server down; stderr is always there
+        process.stderr.write(`Cannot open LOG_FILE ${config.file}, logging to stderr: ${(error as Error).message}\n`);
+      }
+    }
+  }
+
+  private static get settings(): LogConfig {
+    if (!Logger.config) {
+      Logger.configure(loadLogConfig());
+    }
+    return Logger.config!;
+  }
+
+  /** Mask this value wherever it appears in log output (tokens, passwords, session IDs). */
+  static registerSecret(secret: string | undefined): void {
+    if (secret && secret.length >= 4) {
+      Logger.secrets.add(secret);
+    }
+  }
+
+  /** Short random ID tying together the log lines of one request. */
+  static newCorrelationId(): string {
+    return randomBytes(4).toString('hex');
+  }
+
+  /** Run `fn` with every line it logs, across awaits, tagged with `id`. */
+  static withCorrelationId<T>(id: string, fn: () => T): T {
+    return Logger.correlation.run(id, fn);
+  }
+
+  /** Correlation ID of the request being handled, if any. */
+  static correlationId(): string | undefined {
+    return Logger.correlation.getStore();
+  }
+
+  private static redact(text: string): string {
+    let redacted = text;
+    for (const secret of Logger.secrets) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+    for (const [pattern, replacement] of SECRET_PATTERNS) {
+      redacted = redacted.replace(pattern, replacement);
+    }
+    return redacted;
+  }
+
+  private static toRedactedJson(data: any, indent?: number): string {
+    return Logger.redact(JSON.stringify(data, (key, value) => (key && SENSITIVE_KEY.test(key) ? REDACTED : value), indent));
+  }
+
+  /** Copy of `data` with sensitive keys and registered secrets masked, for records kept outside the log. */
+  static redactData<T>(data: T): T {
+    return data === undefined ? data : JSON.parse(Logger.toRedactedJson(data));
+  }
+
+  private formatMessage(level: LogLevel, message: string, data: any, format: LogFormat): string {
     const timestamp = new Date().toISOString();
-    const prefix = `${timestamp} [${level}] ${this.component}:`;
-    
+    const correlationId = Logger.correlationId();
+
+    if (format === 'json') {
+      return Logger.toRedactedJson({
+        timestamp,
+        level,
+        component: this.component,
+        correlation_id: correlationId,
+        message,
+        data
+      });
+    }
+
+    const prefix = `${timestamp} [${level}]${correlationId ? ` [${correlationId}]` : ''} ${this.component}:`;
     if (data) {
-      return `${prefix} ${message} ${JSON.stringify(data, null, 2)}`;
+      return `${Logger.redact(`${prefix} ${message}`)} ${Logger.toRedactedJson(data, 2)}`;
+    }
+    return Logger.redact(`${prefix} ${message}`);
+  }
+
+  private write(level: LogLevel, message: string, data?: any): void {
+    const { level: threshold, format } = Logger.settings;
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(threshold)) {
+      return;
+    }
+
+    const line = this.formatMessage(level, message, data, format) + '\n';
+    if (Logger.fd !== undefined) {
+      writeSync(Logger.fd, line);
+    } else {
+      process.stderr.write(line);
     }
-    
-    return `${prefix} ${message}`;
   }
 
   info(message: string, data?: any): void {
-    console.log(this.formatMessage('INFO', message, data));
+    this.write('INFO', message, data);
   }
 
   warn(message: string, data?: any): void {
-    console.warn(this.formatMessage('WARN', message, data));
+    this.write('WARN', message, data);
   }
 
   error(message: string, error?: any): void {
     if (error instanceof Error) {
-      console.error(this.formatMessage('ERROR', message, {
+      this.write('ERROR', message, {
         message: error.message,
         stack: error.stack
-      }));
-    } else if (error) {
-      console.error(this.formatMessage('ERROR', message, error));
+      });
     } else {
-      console.error(this.formatMessage('ERROR', message));
+      this.write('ERROR', message, error);
     }
   }
 
   debug(message: string, data?: any): void {
-    if (process.env.LOG_LEVEL === 'DEBUG') {
-      console.log(this.formatMessage('DEBUG', message, data));
-    }
+    this.write('DEBUG', message, data);
   }
 }
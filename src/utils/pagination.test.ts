@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCursor, encodeCursor, orderResults, paginateResults } from './pagination.js';
+import { KiwiValidationError } from './errors.js';
+
+describe('cursors', () => {
+  it('round-trip the offset for the same scope and filters', () => {
+    const cursor = encodeCursor('cases', 50, { plan_id: 1, tags: ['smoke'] });
+    assert.equal(decodeCursor('cases', cursor, { plan_id: 1, tags: ['smoke'] }), 50);
+  });
+
+  it('start at offset 0 without a cursor', () => {
+    assert.equal(decodeCursor('cases', undefined, {}), 0);
+    assert.equal(decodeCursor('cases', '', {}), 0);
+  });
+
+  it('ignore filter order and unset filters', () => {
+    const cursor = encodeCursor('runs', 10, { plan_id: 2, environment: 'Linux' });
+    assert.equal(decodeCursor('runs', cursor, { environment: 'Linux', plan_id: 2, summary: undefined, tags: [], notes: '' }), 10);
+  });
+
+  it('reject a cursor issued for different filters', () => {
+    const cursor = encodeCursor('cases', 50, { plan_id: 1 });
+    assert.throws(() => decodeCursor('cases', cursor, { plan_id: 2 }), (error: unknown) =>
+      error instanceof KiwiValidationError && /different filters/.test(error.message));
+  });
+
+  it('reject a cursor issued for another listing', () => {
+    const cursor = encodeCursor('cases', 50, { plan_id: 1 });
+    assert.throws(() => decodeCursor('plans', cursor, { plan_id: 1 }), KiwiValidationError);
+  });
+
+  it('reject malformed cursors', () => {
+    const forged = (state: unknown) => Buffer.from(JSON.stringify(state)).toString('base64url');
+    for (const cursor of ['not-a-cursor', forged({ v: 2, o: 0, f: '' }), forged({ v: 1, o: -1, f: '' }), forged(null)]) {
+      assert.throws(() => decodeCursor('cases', cursor, {}), (error: unknown) =>
+        error instanceof KiwiValidationError && /not a cursor returned by this server/.test(error.message));
+    }
+  });
+});
+
+describe('paginateResults', () => {
+  const items = [1, 2, 3, 4, 5];
+
+  it('slices a page and links to its neighbours', () => {
+    assert.deepEqual(paginateResults(items, 2, 2), {
+      count: 5,
+      next: 'offset=4',
+      previous: 'offset=0',
+      results: [3, 4]
+    });
+  });
+
+  it('returns everything without a limit', () => {
+    assert.deepEqual(paginateResults(items), { count: 5, next: undefined, previous: undefined, results: items });
+  });
+
+  it('has no next page at the end', () => {
+    assert.equal(paginateResults(items, 2, 4).next, undefined);
+  });
+});
+
+describe('orderResults', () => {
+  const items = [{ id: 1 }, { id: 3 }, { id: 2 }];
+
+  it('keeps the server\'s order by default', () => {
+    assert.equal(orderResults(items, {}), items);
+  });
+
+  it('puts the highest IDs first for newest_first, without touching the input', () => {
+    assert.deepEqual(orderResults(items, { newest_first: true }).map(item => item.id), [3, 2, 1]);
+    assert.deepEqual(items.map(item => item.id), [1, 3, 2]);
+  });
+});
@@ -0,0 +1,92 @@
+// Pagination utilities for Kiwi TCMS MCP Server
+
+import { createHash } from 'crypto';
+import { PageQuery, PaginatedResponse } from '../types/index.js';
+import { KiwiValidationError } from './errors.js';
+
+/**
+ * Slice a fully materialised result list into the limit/offset page shape
+ * returned by the REST API, so callers see the same PaginatedResponse
+ * regardless of which transport produced the data.
+ */
+export function paginateResults<T>(items: T[], limit?: number, offset?: number): PaginatedResponse<T> {
+  const start = Math.max(offset || 0, 0);
+  const end = limit && limit > 0 ? start + limit : items.length;
+
+  return {
+    count: items.length,
+    next: end < items.length ? `offset=${end}` : undefined,
+    previous: start > 0 ? `offset=${Math.max(start - (end - start), 0)}` : undefined,
+    results: items.slice(start, end)
+  };
+}
+
+/**
+ * Put a fully materialised result list in the order a page query asks for,
+ * matching the REST API's `ordering=-id` for `newest_first`.
+ */
+export function orderResults<T extends { id: number }>(items: T[], query: PageQuery): T[] {
+  return query.newest_first ? [...items].sort((a, b) => b.id - a.id) : items;
+}
+
+interface CursorState {
+  v: number;
+  o: number;
+  f: string;
+}
+
+const CURSOR_VERSION = 1;
+const RESTART_HINT = 'To start over, call the tool again without a cursor.';
+
+// Stable fingerprint of a query's filters, so a cursor can't be replayed
+// against a different query. Unset filters don't count.
+function fingerprintFilters(scope: string, filters: Record<string, any>): string {
+  const isSet = (value: any) =>
+    value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+  const normalized = Object.keys(filters)
+    .sort()
+    .filter(key => isSet(filters[key]))
+    .map(key => [key, filters[key]]);
+
+  return createHash('sha256')
+    .update(JSON.stringify([scope, normalized]))
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+/**
+ * Build the opaque next-page cursor for a listing tool.
+ */
+export function encodeCursor(scope: string, offset: number, filters: Record<string, any>): string {
+  const state: CursorState = { v: CURSOR_VERSION, o: offset, f: fingerprintFilters(scope, filters) };
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+/**
+ * Resolve an incoming cursor to the offset it encodes. No cursor means the
+ * first page; a malformed cursor or one issued for different filters is rejected.
+ */
+export function decodeCursor(scope: string, cursor: string | undefined, filters: Record<string, any>): number {
+  if (cursor === undefined || cursor === null || cursor === '') {
+    return 0;
+  }
+
+  let state: CursorState;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new KiwiValidationError('Invalid cursor: not a cursor returned by this server', { hint: RESTART_HINT });
+  }
+
+  if (!state || state.v !== CURSOR_VERSION || !Number.isInteger(state.o) || state.o < 0 || typeof state.f !== 'string') {
+    throw new KiwiValidationError('Invalid cursor: not a cursor returned by this server', { hint: RESTART_HINT });
+  }
+
+  if (state.f !== fingerprintFilters(scope, filters)) {
+    throw new KiwiValidationError('Invalid cursor: it was issued for different filters', {
+      hint: `Repeat the filters used for the previous page. ${RESTART_HINT}`
+    });
+  }
+
+  return state.o;
+}
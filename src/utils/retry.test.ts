@@ -0,0 +1,107 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxiosError, AxiosRequestConfig } from 'axios';
+import { computeBackoffDelay, idempotencyKey, isReplayableRequest, isTransientFailure, parseRetryAfter } from './retry.js';
+import { Logger } from './logger.js';
+
+const failedRequest = (config: AxiosRequestConfig, status?: number, code?: string) =>
+  ({ config, code, response: status === undefined ? undefined : { status } }) as AxiosError;
+
+describe('isReplayableRequest', () => {
+  it('replays idempotent HTTP methods', () => {
+    assert.equal(isReplayableRequest(failedRequest({ method: 'get' })), true);
+    assert.equal(isReplayableRequest(failedRequest({ method: 'PUT' })), true);
+  });
+
+  it('does not replay plain writes', () => {
+    assert.equal(isReplayableRequest(failedRequest({ method: 'post', headers: {} })), false);
+    assert.equal(isReplayableRequest(failedRequest({ method: 'patch' })), false);
+  });
+
+  it('replays writes flagged idempotent or carrying an Idempotency-Key', () => {
+    assert.equal(isReplayableRequest(failedRequest({ method: 'post', idempotent: true })), true);
+    assert.equal(isReplayableRequest(failedRequest({ method: 'post', headers: { 'Idempotency-Key': 'create_run:ab:1' } })), true);
+  });
+
+  it('does not replay a request without a config', () => {
+    assert.equal(isReplayableRequest({} as AxiosError), false);
+  });
+});
+
+describe('isTransientFailure', () => {
+  it('retries throttling, timeouts and gateway errors', () => {
+    for (const status of [408, 429, 500, 502, 503, 504]) {
+      assert.equal(isTransientFailure(failedRequest({}, status)), true, `status ${status}`);
+    }
+    assert.equal(isTransientFailure(failedRequest({}, undefined, 'ECONNRESET')), true);
+  });
+
+  it('does not retry client errors', () => {
+    for (const status of [400, 401, 403, 404, 409]) {
+      assert.equal(isTransientFailure(failedRequest({}, status)), false, `status ${status}`);
+    }
+    assert.equal(isTransientFailure(failedRequest({}, undefined, 'ERR_BAD_REQUEST')), false);
+  });
+});
+
+describe('idempotencyKey', () => {
+  it('derives the key from the tool call\'s correlation ID', () => {
+    assert.equal(Logger.withCorrelationId('abcd1234', () => idempotencyKey('create_run')), 'create_run:abcd1234');
+  });
+
+  it('makes up an ID outside a tool call', () => {
+    assert.match(idempotencyKey('clone_plan'), /^clone_plan:[0-9a-f]{8}$/);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('reads delta-seconds', () => {
+    assert.equal(parseRetryAfter('3', now), 3000);
+    assert.equal(parseRetryAfter(' 0 ', now), 0);
+    assert.equal(parseRetryAfter(2, now), 2000);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now), 5000);
+  });
+
+  it('never returns a negative delay for a past date', () => {
+    assert.equal(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now), 0);
+  });
+
+  it('ignores missing and unparseable values', () => {
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+    assert.equal(parseRetryAfter(['3'], now), undefined);
+    assert.equal(parseRetryAfter('soon', now), undefined);
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  const policy = { maxRetries: 5, baseDelayMs: 500, maxDelayMs: 3000 };
+
+  afterEach(() => mock.restoreAll());
+
+  it('doubles the ceiling with each attempt', () => {
+    mock.method(Math, 'random', () => 0.999999);
+    assert.deepEqual([1, 2, 3].map(attempt => computeBackoffDelay(policy, attempt)), [499, 999, 1999]);
+  });
+
+  it('caps the ceiling at the maximum delay', () => {
+    mock.method(Math, 'random', () => 0.999999);
+    assert.equal(computeBackoffDelay(policy, 10), 2999);
+  });
+
+  it('jitters down to zero', () => {
+    mock.method(Math, 'random', () => 0);
+    assert.equal(computeBackoffDelay(policy, 3), 0);
+  });
+
+  it('stays within [0, ceiling)', () => {
+    for (let i = 0; i < 100; i++) {
+      const delay = computeBackoffDelay(policy, 2);
+      assert.ok(delay >= 0 && delay < 1000, `delay ${delay} out of range`);
+    }
+  });
+});
@@ -0,0 +1,73 @@
+// Retry policy utilities for Kiwi TCMS MCP Server
+
+import { AxiosError } from 'axios';
+import { RetryPolicy } from '../types/index.js';
+import { Logger } from './logger.js';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Marks a request as safe to repeat even though its HTTP method isn't (e.g. JSON-RPC reads). */
+    idempotent?: boolean;
+    /** Number of retries already made for this request. */
+    retryAttempt?: number;
+  }
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/** Idempotency key for the writes of `operation` in the current tool call, from its correlation ID. */
+export function idempotencyKey(operation: string): string {
+  return `${operation}:${Logger.correlationId() ?? Logger.newCorrelationId()}`;
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'EPIPE'];
+
+/**
+ * A request may be replayed when its method is idempotent, when the caller
+ * flagged it as such, or when it carries an idempotency key.
+ */
+export function isReplayableRequest(error: AxiosError): boolean {
+  const config = error.config;
+  if (!config) return false;
+
+  if (config.idempotent) return true;
+  if (IDEMPOTENT_METHODS.includes((config.method || 'get').toLowerCase())) return true;
+  return Boolean(config.headers?.[IDEMPOTENCY_KEY_HEADER]);
+}
+
+export function isTransientFailure(error: AxiosError): boolean {
+  if (error.response) {
+    return RETRYABLE_STATUSES.includes(error.response.status);
+  }
+  return RETRYABLE_NETWORK_CODES.includes(error.code || '');
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) {
+    return parseInt(text, 10) * 1000;
+  }
+
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in
+ * [0, min(maxDelay, baseDelay * 2^(attempt - 1))].
+ */
+export function computeBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonSchema, validateSchema } from './schema.js';
+
+const schema = {
+  type: 'object',
+  properties: {
+    run_id: { type: 'integer', minimum: 1 },
+    summary: { type: 'string', minLength: 1, pattern: '\\S' },
+    status: { type: 'string', enum: ['PASS', 'FAIL'] },
+    dry_run: { type: 'boolean' },
+    case_ids: { type: 'array', items: { type: 'integer', minimum: 1 }, minItems: 1, maxItems: 3 },
+    notes: { type: ['string', 'null'] },
+    patch: {
+      type: 'object',
+      properties: { priority: { type: 'string' } },
+      minProperties: 1,
+      additionalProperties: false
+    }
+  },
+  required: ['run_id'],
+  additionalProperties: false
+} as const satisfies JsonSchema;
+
+describe('validateSchema', () => {
+  it('accepts a valid value and returns it unchanged', () => {
+    const input = { run_id: 1, status: 'PASS', case_ids: [1, 2], notes: null, patch: { priority: 'P1' } };
+    const { value, errors } = validateSchema(schema, input);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(value, input);
+  });
+
+  it('reports every violation with its path', () => {
+    const { errors } = validateSchema(schema, {
+      summary: '',
+      status: 'PASSED',
+      case_ids: [1, 0],
+      extra: true
+    });
+    assert.deepEqual(errors, [
+      { path: 'run_id', message: 'is required' },
+      { path: 'summary', message: 'must not be empty' },
+      { path: 'status', message: 'must be one of "PASS", "FAIL"' },
+      { path: 'case_ids[1]', message: 'must be >= 1' },
+      { path: 'extra', message: 'is not allowed (expected run_id, summary, status, dry_run, case_ids, notes, patch)' }
+    ]);
+  });
+
+  it('reports type mismatches', () => {
+    const { errors } = validateSchema(schema, { run_id: 1.5, dry_run: 'yes', notes: 3 });
+    assert.deepEqual(errors, [
+      { path: 'run_id', message: 'must be integer, got number' },
+      { path: 'dry_run', message: 'must be boolean, got string' },
+      { path: 'notes', message: 'must be string or null, got number' }
+    ]);
+  });
+
+  it('reports a non-object at the top level as (arguments)', () => {
+    const { errors } = validateSchema(schema, []);
+    assert.deepEqual(errors, [{ path: '(arguments)', message: 'must be object, got array' }]);
+  });
+
+  it('checks string patterns, array sizes and property counts', () => {
+    const { errors } = validateSchema(schema, { run_id: 1, summary: '   ', case_ids: [1, 2, 3, 4], patch: {} });
+    assert.deepEqual(errors, [
+      { path: 'summary', message: 'must not be blank' },
+      { path: 'case_ids', message: 'must have at most 3 items' },
+      { path: 'patch', message: 'must have at least 1 property' }
+    ]);
+  });
+
+  it('rejects unknown nested properties', () => {
+    const { errors } = validateSchema(schema, { run_id: 1, patch: { priorty: 'P1' } });
+    assert.deepEqual(errors, [{ path: 'patch.priorty', message: 'is not allowed (expected priority)' }]);
+  });
+
+  it('leaves strings alone unless coercion is on', () => {
+    assert.deepEqual(validateSchema(schema, { run_id: '42' }).errors, [
+      { path: 'run_id', message: 'must be integer, got string' }
+    ]);
+
+    const { value, errors } = validateSchema(schema, { run_id: ' 42 ', dry_run: 'true', case_ids: ['1'], notes: 'null' }, { coerce: true });
+    assert.deepEqual(errors, []);
+    assert.deepEqual(value, { run_id: 42, dry_run: true, case_ids: [1], notes: 'null' });
+  });
+
+  it('does not coerce strings that aren\'t numbers or booleans', () => {
+    const { errors } = validateSchema(schema, { run_id: '4x', dry_run: 'yes' }, { coerce: true });
+    assert.deepEqual(errors, [
+      { path: 'run_id', message: 'must be integer, got string' },
+      { path: 'dry_run', message: 'must be boolean, got string' }
+    ]);
+  });
+});
@@ -0,0 +1,219 @@
+// JSON Schema validation for Kiwi TCMS MCP Server
+// Covers the subset of JSON Schema used by the tool input schemas
+
+export type JsonSchemaType = 'string' | 'integer' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | readonly JsonSchemaType[];
+  description?: string;
+  enum?: readonly (string | number | boolean | null)[];
+  properties?: { readonly [name: string]: JsonSchema };
+  required?: readonly string[];
+  additionalProperties?: boolean;
+  minProperties?: number;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+export interface SchemaValidationError {
+  /** Location of the offending value, e.g. `case_ids[2]` or `patch.steps[0].action`. */
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationOptions {
+  /**
+   * Convert strings to the declared integer, number or boolean type
+   * ("42" → 42, "true" → true) before checking. Off unless asked for.
+   */
+  coerce?: boolean;
+}
+
+export interface SchemaValidationResult<T = unknown> {
+  value: T;
+  errors: SchemaValidationError[];
+}
+
+// Type-level mirror of validateSchema: the TypeScript type a value has once
+// it passed the schema. Schemas must be declared `as const` for this to work.
+type PrimitiveType<T> =
+  T extends 'string' ? string :
+  T extends 'integer' | 'number' ? number :
+  T extends 'boolean' ? boolean :
+  T extends 'null' ? null :
+  never;
+
+type RequiredKeys<S> = S extends { required: readonly (infer K)[] } ? K : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectType<S> = S extends { properties: infer P }
+  ? Simplify<
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? K : never]: FromSchema<P[K]> } &
+      { -readonly [K in keyof P as K extends RequiredKeys<S> ? never : K]?: FromSchema<P[K]> } &
+      (S extends { additionalProperties: true } ? { [key: string]: any } : {})
+    >
+  : Record<string, unknown>;
+
+type TypeOf<S, T> =
+  T extends 'object' ? ObjectType<S> :
+  T extends 'array' ? (S extends { items: infer I } ? FromSchema<I>[] : unknown[]) :
+  PrimitiveType<T>;
+
+export type FromSchema<S> =
+  S extends { enum: readonly (infer E)[] } ? E :
+  S extends { type: readonly (infer T)[] } ? TypeOf<S, T> :
+  S extends { type: infer T } ? TypeOf<S, T> :
+  unknown;
+
+function typeOfValue(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOfValue(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function coerceValue(value: unknown, types: readonly JsonSchemaType[]): unknown {
+  if (typeof value !== 'string' || types.includes('string')) {
+    return value;
+  }
+
+  const trimmed = value.trim();
+  if ((types.includes('integer') && /^-?[0-9]+$/.test(trimmed)) ||
+      (types.includes('number') && trimmed !== '' && Number.isFinite(Number(trimmed)))) {
+    return Number(trimmed);
+  }
+  if (types.includes('boolean') && (trimmed === 'true' || trimmed === 'false')) {
+    return trimmed === 'true';
+  }
+  if (types.includes('null') && trimmed === 'null') {
+    return null;
+  }
+  return value;
+}
+
+function describeValue(value: unknown): string {
+  const type = typeOfValue(value);
+  return type === 'integer' ? 'number' : type;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function check(
+  schema: JsonSchema,
+  input: unknown,
+  path: string,
+  options: SchemaValidationOptions,
+  errors: SchemaValidationError[]
+): unknown {
+  const fail = (message: string) => errors.push({ path: path || '(arguments)', message });
+  const types = schema.type === undefined ? [] : ([] as JsonSchemaType[]).concat(schema.type);
+  const value = options.coerce && types.length > 0 ? coerceValue(input, types) : input;
+
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    fail(`must be ${types.join(' or ')}, got ${describeValue(value)}`);
+    return value;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    fail(`must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+    } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    } else if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      // '\S' is how the schemas spell "not only whitespace"
+      fail(schema.pattern === '\\S' ? 'must not be blank' : `must match ${schema.pattern}`);
+    }
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    const items = schema.items;
+    return items ? value.map((item, index) => check(items, item, childPath(path, index), options, errors)) : value;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const properties = schema.properties || {};
+    const result: Record<string, unknown> = {};
+
+    for (const name of schema.required || []) {
+      if (!(name in value)) {
+        errors.push({ path: childPath(path, name), message: 'is required' });
+      }
+    }
+
+    const keys = Object.keys(value);
+    if (schema.minProperties !== undefined && keys.length < schema.minProperties) {
+      fail(`must have at least ${schema.minProperties} propert${schema.minProperties === 1 ? 'y' : 'ies'}`);
+    }
+
+    for (const key of keys) {
+      const propertyValue = (value as Record<string, unknown>)[key];
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        result[key] = check(propertySchema, propertyValue, childPath(path, key), options, errors);
+      } else if (schema.additionalProperties === false) {
+        const known = Object.keys(properties);
+        errors.push({
+          path: childPath(path, key),
+          message: known.length > 0 ? `is not allowed (expected ${known.join(', ')})` : 'is not allowed'
+        });
+      } else {
+        result[key] = propertyValue;
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Check a value against a schema, collecting every violation with its path
+ * rather than stopping at the first. Returns the value to use (a coerced
+ * copy when coercion is on).
+ */
+export function validateSchema<T = unknown>(
+  schema: JsonSchema,
+  value: unknown,
+  options: SchemaValidationOptions = {}
+): SchemaValidationResult<T> {
+  const errors: SchemaValidationError[] = [];
+  const checked = check(schema, value, '', options, errors);
+  return { value: checked as T, errors };
+}
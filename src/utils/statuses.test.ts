@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchStatusName, statusNamesWithAliases } from './statuses.js';
+
+const SHORT = ['IDLE', 'PASS', 'FAIL', 'BLOCKED'];
+const STOCK = ['IDLE', 'PASSED', 'FAILED', 'BLOCKED'];
+
+describe('matchStatusName', () => {
+  it('matches names case-insensitively, ignoring surrounding blanks', () => {
+    assert.equal(matchStatusName(SHORT, ' blocked '), 'BLOCKED');
+  });
+
+  it('resolves PASS/FAIL and PASSED/FAILED to whichever the server uses', () => {
+    assert.equal(matchStatusName(STOCK, 'pass'), 'PASSED');
+    assert.equal(matchStatusName(STOCK, 'FAIL'), 'FAILED');
+    assert.equal(matchStatusName(SHORT, 'PASSED'), 'PASS');
+    assert.equal(matchStatusName(SHORT, 'failed'), 'FAIL');
+  });
+
+  it('prefers an exact name over an alias', () => {
+    assert.equal(matchStatusName(['PASS', 'PASSED'], 'PASSED'), 'PASSED');
+  });
+
+  it('returns undefined for unknown names', () => {
+    assert.equal(matchStatusName(SHORT, 'SKIPPED'), undefined);
+  });
+});
+
+describe('statusNamesWithAliases', () => {
+  it('adds the aliases that resolve to a server status', () => {
+    assert.deepEqual(statusNamesWithAliases(STOCK), [...STOCK, 'PASS', 'FAIL']);
+    assert.deepEqual(statusNamesWithAliases(SHORT), [...SHORT, 'PASSED', 'FAILED']);
+  });
+
+  it('does not repeat names the server already has', () => {
+    assert.deepEqual(statusNamesWithAliases(['PASS', 'PASSED', 'FAIL']), ['PASS', 'PASSED', 'FAIL', 'FAILED']);
+  });
+
+  it('adds nothing when no status has an alias', () => {
+    assert.deepEqual(statusNamesWithAliases(['IDLE', 'BLOCKED']), ['IDLE', 'BLOCKED']);
+  });
+});
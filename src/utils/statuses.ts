@@ -0,0 +1,63 @@
+// Execution status and priority helpers for Kiwi TCMS MCP Server
+
+import { KiwiCaseStatus, KiwiExecutionStatus, KiwiPlanType, KiwiPriority, StatusOutcome } from '../types/index.js';
+
+// Used until the server's own lists are loaded, or when it can't provide them
+export const DEFAULT_EXECUTION_STATUSES: KiwiExecutionStatus[] = [
+  { id: 1, name: 'IDLE', weight: 0, color: '#72767b', icon: 'fa fa-question-circle-o' },
+  { id: 2, name: 'PASS', weight: 20, color: '#92d400', icon: 'fa fa-check-circle-o' },
+  { id: 3, name: 'FAIL', weight: -20, color: '#cc0000', icon: 'fa fa-times-circle-o' },
+  { id: 4, name: 'BLOCKED', weight: -10, color: '#cc0000', icon: 'fa fa-stop-circle-o' },
+  { id: 5, name: 'ERROR', weight: -10, color: '#cc0000', icon: 'fa fa-minus-circle' }
+];
+
+export const DEFAULT_PRIORITIES: KiwiPriority[] = [
+  { id: 1, value: 'P1', is_active: true },
+  { id: 2, value: 'P2', is_active: true },
+  { id: 3, value: 'P3', is_active: true },
+  { id: 4, value: 'P4', is_active: true }
+];
+
+export const DEFAULT_CASE_STATUSES: KiwiCaseStatus[] = [
+  { id: 1, name: 'PROPOSED', is_confirmed: false },
+  { id: 2, name: 'CONFIRMED', is_confirmed: true },
+  { id: 3, name: 'DISABLED', is_confirmed: false },
+  { id: 4, name: 'NEED_UPDATE', is_confirmed: false }
+];
+
+export const DEFAULT_PLAN_TYPES: KiwiPlanType[] = [
+  'Unit', 'Integration', 'Function', 'System', 'Acceptance', 'Installation',
+  'Performance', 'Product', 'Interoperability', 'Smoke', 'Regression'
+].map((name, index) => ({ id: index + 1, name }));
+
+// Stock Kiwi TCMS names its statuses PASSED/FAILED; accept the short forms too
+const STATUS_ALIASES: Record<string, string> = {
+  PASS: 'PASSED',
+  PASSED: 'PASS',
+  FAIL: 'FAILED',
+  FAILED: 'FAIL'
+};
+
+export function matchStatusName(names: string[], name: string): string | undefined {
+  const wanted = name.trim().toUpperCase();
+  return names.find(n => n.toUpperCase() === wanted) ||
+    names.find(n => n.toUpperCase() === STATUS_ALIASES[wanted]);
+}
+
+/** The status names plus the aliases that resolve to one of them, e.g. PASS for PASSED. */
+export function statusNamesWithAliases(names: string[]): string[] {
+  const aliases = Object.keys(STATUS_ALIASES).filter(alias =>
+    !names.some(n => n.toUpperCase() === alias) && matchStatusName(names, alias) !== undefined);
+  return [...names, ...aliases];
+}
+
+export function findStatusByName(statuses: KiwiExecutionStatus[], name: string): KiwiExecutionStatus | undefined {
+  const match = matchStatusName(statuses.map(s => s.name), name);
+  return statuses.find(s => s.name === match);
+}
+
+export function statusOutcome(status: KiwiExecutionStatus): StatusOutcome {
+  if (status.weight > 0) return 'pass';
+  if (status.weight < 0) return 'fail';
+  return 'neutral';
+}
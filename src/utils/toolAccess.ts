@@ -0,0 +1,56 @@
+// Tool access policy for Kiwi TCMS MCP Server
+// Decides which tools are exposed: read-only mode plus glob allow/deny lists
+
+import { KiwiToolModule } from '../types/index.js';
+import { serverConfig } from './config.js';
+
+export interface ToolAccessConfig {
+  /** Expose only tools annotated `readOnlyHint: true`. */
+  readOnly: boolean;
+  /** Glob patterns; when non-empty, only matching tools are exposed. */
+  allow: string[];
+  /** Glob patterns; matching tools are never exposed, even if allowed. */
+  deny: string[];
+}
+
+export function loadToolAccessConfig(): ToolAccessConfig {
+  const { read_only: readOnly, allow, deny } = serverConfig().tools;
+  return { readOnly, allow, deny };
+}
+
+/** `*` matches any run of characters (dots included), `?` a single one. */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[\\^$.+()|[\]{}]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+export class ToolAccessPolicy {
+  private allow: RegExp[];
+  private deny: Array<{ pattern: string; regexp: RegExp }>;
+
+  constructor(readonly config: ToolAccessConfig = loadToolAccessConfig()) {
+    this.allow = config.allow.map(globToRegExp);
+    this.deny = config.deny.map(pattern => ({ pattern, regexp: globToRegExp(pattern) }));
+  }
+
+  /**
+   * Why the tool is hidden and rejected, or undefined when it is exposed.
+   * Tools without a readOnlyHint count as mutating in read-only mode.
+   */
+  denialReason(tool: KiwiToolModule): string | undefined {
+    const denied = this.deny.find(({ regexp }) => regexp.test(tool.name));
+    if (denied) {
+      return `matches KIWI_TOOLS_DENY pattern ${denied.pattern}`;
+    }
+    if (this.allow.length > 0 && !this.allow.some(regexp => regexp.test(tool.name))) {
+      return 'not matched by KIWI_TOOLS_ALLOW';
+    }
+    if (this.config.readOnly && tool.annotations?.readOnlyHint !== true) {
+      return 'the server is in read-only mode';
+    }
+    return undefined;
+  }
+}
@@ -1,40 +1,14 @@
 // Validation utilities for Kiwi TCMS MCP Server
 
-export function validateEnvironment(): void {
-  const required = [
-    'KIWI_BASE_URL',
-    'KIWI_TOKEN'
-  ];
+import { matchStatusName } from './statuses.js';
+import { serverConfig } from './config.js';
 
-  const missing = required.filter(key => !process.env[key]);
-  
-  if (missing.length > 0) {
-    throw new Error(`Missing required environment variables: ${missing.join(', ')}`);
-  }
-
-  // Validate KIWI_BASE_URL format
-  const baseUrl = process.env.KIWI_BASE_URL!;
-  try {
-    new URL(baseUrl);
-  } catch (error) {
-    throw new Error(`Invalid KIWI_BASE_URL format: ${baseUrl}`);
-  }
-
-  // Validate token is not empty
-  const token = process.env.KIWI_TOKEN!;
-  if (token.trim().length === 0) {
-    throw new Error('KIWI_TOKEN cannot be empty');
-  }
-}
-
-export function validateStatus(status: string): boolean {
-  const validStatuses = ['PASS', 'FAIL', 'BLOCKED', 'ERROR', 'IDLE'];
-  return validStatuses.includes(status.toUpperCase());
+export function validateStatus(status: string, validStatuses: string[]): boolean {
+  return matchStatusName(validStatuses, status) !== undefined;
 }
 
-export function validatePriority(priority: string): boolean {
-  const validPriorities = ['P1', 'P2', 'P3', 'P4'];
-  return validPriorities.includes(priority.toUpperCase());
+export function validatePriority(priority: string, validPriorities: string[]): boolean {
+  return validPriorities.some(p => p.toUpperCase() === priority.toUpperCase());
 }
 
 export function validateUriScheme(uri: string): boolean {
@@ -98,7 +72,8 @@ export function validateId(id: any): boolean {
 }
 
 export function validateLimitAndOffset(limit?: number, offset?: number): { limit: number; offset: number } {
-  const validatedLimit = Math.min(Math.max(limit || 50, 1), 1000);
+  const { default_limit: defaultLimit, max_limit: maxLimit } = serverConfig().tools;
+  const validatedLimit = Math.min(Math.max(limit || defaultLimit, 1), maxLimit);
   const validatedOffset = Math.max(offset || 0, 0);
   
   return { limit: validatedLimit, offset: validatedOffset };
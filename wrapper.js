@@ -96,6 +96,7 @@ class KiwiTcmsMCPWrapper {
         configuration: {
           'KIWI_BASE_URL': 'Base URL for Kiwi TCMS instance (required)',
           'KIWI_TOKEN': 'API token for Kiwi TCMS authentication (required)',
+          'KIWI_INSTANCES': 'Comma-separated instance names, each configured with KIWI_<NAME>_BASE_URL/_TOKEN (replaces KIWI_BASE_URL/KIWI_TOKEN)',
           'LOG_LEVEL': 'Logging level (DEBUG, INFO, WARN, ERROR)'
         }
       });
@@ -108,20 +109,27 @@ class KiwiTcmsMCPWrapper {
     // Validate environment variables
     const kiwiBaseUrl = process.env.KIWI_BASE_URL;
     const kiwiToken = process.env.KIWI_TOKEN;
+    const kiwiInstances = process.env.KIWI_INSTANCES;
+    const hasCredentials = Boolean(kiwiToken || process.env.KIWI_TOKEN_FILE ||
+      (process.env.KIWI_USERNAME && process.env.KIWI_PASSWORD));
     
-    if (!kiwiBaseUrl || !kiwiToken) {
+    if (!kiwiInstances && (!kiwiBaseUrl || !hasCredentials)) {
       console.error('❌ Missing required Kiwi TCMS configuration:');
       console.error(`   KIWI_BASE_URL: ${kiwiBaseUrl ? '✓' : '✗'}`);
-      console.error(`   KIWI_TOKEN: ${kiwiToken ? '✓' : '✗'}`);
+      console.error(`   Credentials (KIWI_TOKEN, KIWI_TOKEN_FILE or KIWI_USERNAME/KIWI_PASSWORD): ${hasCredentials ? '✓' : '✗'}`);
       console.error('');
       console.error('💡 Configuration Help:');
       console.error('   1. Set KIWI_BASE_URL to your Kiwi TCMS instance URL (e.g., http://localhost:8080)');
       console.error('   2. Set KIWI_TOKEN to your API token from Kiwi TCMS user profile');
+      console.error('      (or KIWI_TOKEN_FILE, or KIWI_USERNAME and KIWI_PASSWORD for session login)');
       process.exit(1);
     }
 
-    console.log(`🔗 Connecting to Kiwi TCMS: ${kiwiBaseUrl}`);
-    console.log(`🔑 Using API token (length: ${kiwiToken.length})`);
+    if (kiwiInstances) {
+      console.log(`🔗 Connecting to Kiwi TCMS instances: ${kiwiInstances}`);
+    } else {
+      console.log(`🔗 Connecting to Kiwi TCMS: ${kiwiBaseUrl}`);
+    }
     
     try {
       // Get the path to the built Kiwi TCMS MCP server
@@ -132,9 +140,7 @@ class KiwiTcmsMCPWrapper {
         stdio: ['pipe', 'pipe', 'pipe'],
         env: {
           ...process.env,
-          // Pass through environment variables
-          KIWI_BASE_URL: kiwiBaseUrl,
-          KIWI_TOKEN: kiwiToken,
+          // Kiwi TCMS settings (KIWI_*) pass through from process.env
           LOG_LEVEL: process.env.LOG_LEVEL || 'INFO'
         }
       });
@@ -220,30 +226,22 @@ class KiwiTcmsMCPWrapper {
   }
 
   handleMCPResponse(responseText) {
+    // The server logs to stderr (or LOG_FILE), so every stdout line is a JSON-RPC message
+    let response;
     try {
-      // Skip non-JSON responses (logs, messages)
-      const trimmed = responseText.trim();
-      if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
-        // This is likely a log message, ignore it
-        return;
-      }
-
-      const response = JSON.parse(trimmed);
-      const requestId = response.id;
-
-      const queueIndex = this.requestQueue.findIndex(req => req.id === requestId);
-      if (queueIndex !== -1) {
-        const request = this.requestQueue[queueIndex];
-        this.requestQueue.splice(queueIndex, 1);
-        request.resolve(response);
-      }
+      response = JSON.parse(responseText);
     } catch (error) {
-      // Only log JSON parsing errors for what looks like JSON
-      if (responseText.trim().startsWith('{') || responseText.trim().startsWith('[')) {
-        console.error('❌ Failed to parse Kiwi TCMS MCP response:', error.message);
-        console.error('📋 Response text:', responseText.substring(0, 200));
-      }
-      // Ignore non-JSON responses silently
+      console.error('❌ Failed to parse Kiwi TCMS MCP response:', error.message);
+      console.error('📋 Response text:', responseText.substring(0, 200));
+      return;
+    }
+
+    const requestId = response.id;
+    const queueIndex = this.requestQueue.findIndex(req => req.id === requestId);
+    if (queueIndex !== -1) {
+      const request = this.requestQueue[queueIndex];
+      this.requestQueue.splice(queueIndex, 1);
+      request.resolve(response);
     }
   }
 